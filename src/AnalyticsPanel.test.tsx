@@ -0,0 +1,16 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render } from "@testing-library/react";
+import AnalyticsPanel from "./AnalyticsPanel";
+import { axeViolations } from "./test/axe";
+import { fullProfile, secondProfile, thirdProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("AnalyticsPanel", () => {
+  it("has no axe violations", async () => {
+    const { container } = render(
+      <AnalyticsPanel profiles={[fullProfile, secondProfile, thirdProfile]} />
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
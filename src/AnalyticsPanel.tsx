@@ -0,0 +1,148 @@
+import { useMemo } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { Profile } from "./types";
+import { CountEntry, buildAnalytics, exportAnalytics } from "./analytics";
+
+interface CountListProps {
+  title: string;
+  entries: CountEntry[];
+  total: number;
+}
+
+// Ranked values with a bar for the share of profiles they appear in
+function CountList({ title, entries, total }: CountListProps) {
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No data</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(({ label, count }) => (
+            <li key={label}>
+              <div className="flex justify-between text-xs text-gray-600">
+                <span className="truncate pr-2" title={label}>
+                  {label}
+                </span>
+                <span>{count}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className="h-1.5 rounded-full bg-blue-500"
+                  style={{ width: `${(count / total) * 100}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Top skills, companies, schools and locations plus a score histogram for
+// the loaded result set
+function AnalyticsPanel({ profiles }: { profiles: Profile[] }) {
+  const analytics = useMemo(() => buildAnalytics(profiles), [profiles]);
+  const { profileCount, scoreHistogram, unscored } = analytics;
+  const maxBucket = Math.max(1, ...scoreHistogram.map((b) => b.count));
+
+  const handleExport = () => {
+    try {
+      exportAnalytics(profiles);
+    } catch (error) {
+      toast.error("Export failed");
+      console.error(error);
+    }
+  };
+
+  if (profileCount === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg px-6 py-8 text-center text-sm text-gray-500">
+        No profiles to analyze
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Across {profileCount} profile{profileCount === 1 ? "" : "s"}
+        </p>
+        <button
+          onClick={handleExport}
+          className="flex items-center px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+          Export summary
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CountList
+          title="Top skills"
+          entries={analytics.topSkills}
+          total={profileCount}
+        />
+        <CountList
+          title="Top current companies"
+          entries={analytics.topCompanies}
+          total={profileCount}
+        />
+        <CountList
+          title="Top schools"
+          entries={analytics.topSchools}
+          total={profileCount}
+        />
+        <CountList
+          title="Locations"
+          entries={analytics.locations}
+          total={profileCount}
+        />
+      </div>
+
+      {/* Score Histogram */}
+      <div className="bg-white shadow rounded-lg px-4 py-4">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          Overall score distribution
+        </h3>
+        <div className="flex items-end h-32 space-x-1">
+          {scoreHistogram.map((bucket) => (
+            <div
+              key={bucket.label}
+              className="flex-1 flex flex-col items-center justify-end h-full"
+              title={`${bucket.label}: ${bucket.count}`}
+            >
+              {bucket.count > 0 && (
+                <span className="text-xs text-gray-600">{bucket.count}</span>
+              )}
+              <div
+                className="w-full bg-blue-500 rounded-t"
+                style={{ height: `${(bucket.count / maxBucket) * 100}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex space-x-1 mt-1">
+          {scoreHistogram.map((bucket) => (
+            <span
+              key={bucket.label}
+              className="flex-1 text-center text-xs text-gray-500"
+            >
+              {bucket.min}
+            </span>
+          ))}
+        </div>
+        {unscored > 0 && (
+          <p className="mt-2 text-xs text-gray-500">
+            {unscored} profile{unscored === 1 ? "" : "s"} without a score
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsPanel;
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Disclosure } from "@headlessui/react";
+import { ChevronDownIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  getApiBaseUrl,
+  getApiBaseUrlOverride,
+  getDefaultApiBaseUrl,
+  setApiBaseUrlOverride,
+} from "./api";
+
+// Lets the user point the UI at another backend (staging, a local mock
+// server...) without rebuilding. The override is kept in local storage.
+function ApiSettings() {
+  const [baseUrl, setBaseUrl] = useState(getApiBaseUrlOverride());
+
+  const handleSave = () => {
+    if (baseUrl.trim()) {
+      try {
+        new URL(baseUrl.trim());
+      } catch {
+        toast.error("Please enter a valid URL");
+        return;
+      }
+    }
+    setApiBaseUrlOverride(baseUrl);
+    setBaseUrl(getApiBaseUrlOverride());
+    toast.success(`Using ${getApiBaseUrl()}`);
+  };
+
+  const handleReset = () => {
+    setApiBaseUrlOverride("");
+    setBaseUrl("");
+    toast.success(`Using ${getDefaultApiBaseUrl()}`);
+  };
+
+  return (
+    <Disclosure as="div" className="mt-4 bg-white shadow rounded-lg">
+      {({ open }) => (
+        <>
+          <Disclosure.Button className="w-full flex justify-between items-center px-4 py-3 sm:px-6 text-sm font-medium text-gray-700 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500">
+            <span>API Settings</span>
+            <ChevronDownIcon
+              className={`h-5 w-5 text-gray-400 ${open ? "rotate-180" : ""}`}
+              aria-hidden="true"
+            />
+          </Disclosure.Button>
+          <Disclosure.Panel className="px-4 pb-5 sm:px-6 space-y-2">
+            <label
+              htmlFor="apiBaseUrl"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Backend Base URL
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="url"
+                id="apiBaseUrl"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                placeholder={getDefaultApiBaseUrl()}
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={handleReset}
+                className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300"
+              >
+                Reset
+              </button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Leave empty to use the default ({getDefaultApiBaseUrl()}).
+            </p>
+          </Disclosure.Panel>
+        </>
+      )}
+    </Disclosure>
+  );
+}
+
+export default ApiSettings;
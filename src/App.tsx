@@ -1,166 +1,78 @@
-import React, { useState, useEffect } from "react";
-import { Toaster, toast } from "react-hot-toast";
-import { InformationCircleIcon } from "@heroicons/react/24/outline";
-import * as XLSX from "xlsx"; // Import SheetJS for Excel export
-
-interface Role {
-  title?: string;
-  dateRange?: string;
-  location?: string;
-  description?: string[];
-}
-
-interface Experience {
-  company: string;
-  roles?: Role[];
-  dateRange?: string;
-  description?: string[];
-  location?: string;
-  title?: string;
-  skills?: string;
-}
-
-interface Education {
-  institution: string;
-  degree: string;
-  date: string;
-  details: string[];
-}
-
-interface Evaluation {
-  personal_information: {
-    score: number;
-    explanation: string;
-  };
-  education: {
-    score: number;
-    explanation: string;
-  };
-  work_experience: {
-    score: number;
-    explanation: string;
+import { Toaster } from "react-hot-toast";
+import {
+  ChartBarIcon,
+  PresentationChartBarIcon,
+  RectangleStackIcon,
+  TableCellsIcon,
+  ViewColumnsIcon,
+} from "@heroicons/react/24/outline";
+import { Profile } from "./types";
+import ExportMenu from "./ExportMenu";
+import ImportButton from "./ImportButton";
+import ApiSettings from "./ApiSettings";
+import RunHistory from "./RunHistory";
+import ScrapeForm from "./ScrapeForm";
+import ProfileTable from "./ProfileTable";
+import RankingDashboard from "./RankingDashboard";
+import CompareView from "./CompareView";
+import AnalyticsPanel from "./AnalyticsPanel";
+import ProfileCarousel from "./ProfileCarousel";
+import FilterBuilder from "./FilterBuilder";
+import ProfileOnePager from "./ProfileOnePager";
+import { getTriage } from "./triage";
+import { ResultsProvider, ViewMode, useResults } from "./store";
+
+const VIEW_MODES: {
+  key: ViewMode;
+  label: string;
+  icon: typeof ChartBarIcon;
+}[] = [
+  { key: "table", label: "Table", icon: TableCellsIcon },
+  { key: "ranking", label: "Ranking", icon: ChartBarIcon },
+  { key: "carousel", label: "Carousel", icon: RectangleStackIcon },
+  { key: "compare", label: "Compare", icon: ViewColumnsIcon },
+  { key: "analytics", label: "Analytics", icon: PresentationChartBarIcon },
+];
+
+function Results() {
+  const {
+    state,
+    dispatch,
+    matchingIndices,
+    filteredProfiles,
+    runSummaries,
+    priorSightings,
+    triage,
+    printJob,
+    toggleCompare,
+    saveResults,
+    openRun,
+    removeRun,
+  } = useResults();
+  const { profiles, viewMode, compareIndices, currentIndex } = state;
+
+  // Imported results are stored as a run so they can be reopened later
+  const handleImport = (imported: Profile[], fileName: string) => {
+    dispatch({ type: "loadResults", profiles: imported, runId: null });
+    saveResults({
+      searchUrl: "",
+      createdAt: new Date().toISOString(),
+      limit: imported.length,
+      profiles: imported,
+      importedFrom: fileName,
+    });
   };
-  overall_score: number;
-  actionable_insights: string[];
-}
-
-interface Profile {
-  name?: string;
-  location?: string;
-  profile_url?: string;
-  title?: string;
-  experiences?: Experience[];
-  education?: Education[];
-  evaluation?: Evaluation;
-}
-
-function App() {
-  const [linkedinUrl, setLinkedinUrl] = useState("");
-  const [sessionCookie, setSessionCookie] = useState("");
-  const [maxProfiles, setMaxProfiles] = useState(1);
-  const [isRunning, setIsRunning] = useState(false);
-  const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [currentProfileIndex, setCurrentProfileIndex] = useState(0);
-
-  // Auto-fill form fields if URL parameters are available
-  useEffect(() => {
-    const searchParams = new URLSearchParams(window.location.search);
-    const urlParam = searchParams.get("url");
-    const cookieParam = searchParams.get("cookie");
-    if (urlParam) {
-      setLinkedinUrl(urlParam);
-    }
-    if (cookieParam) {
-      setSessionCookie(cookieParam);
-    }
-  }, []);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!linkedinUrl || !sessionCookie) {
-      toast.error("Please fill in all required fields");
-      return;
-    }
-
-    setIsRunning(true);
-    try {
-      const response = await fetch(
-        "http://43.205.73.56:8000/linkedin/scrape_by_url",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            url: linkedinUrl,
-            session_cookie: sessionCookie,
-            limit: maxProfiles,
-          }),
-        }
-      );
 
-      const data = await response.json();
-      console.log(data);
-
-      if (data.error) {
-        toast.error(data.error);
-      } else {
-        // Reset carousel index when new profiles are loaded
-        setProfiles(
-          Array.isArray(data.profile) ? data.profile : [data.profile]
-        );
-        setCurrentProfileIndex(0);
-        toast.success("Profiles scraped successfully!");
-      }
-    } catch (error) {
-      toast.error("Failed to scrape profiles");
-      console.error(error);
-    } finally {
-      setIsRunning(false);
-    }
-  };
-
-  // Navigation functions for the carousel
-  const goToPrevious = () => {
-    setCurrentProfileIndex((prevIndex) =>
-      prevIndex > 0 ? prevIndex - 1 : prevIndex
-    );
-  };
-
-  const goToNext = () => {
-    setCurrentProfileIndex((prevIndex) =>
-      prevIndex < profiles.length - 1 ? prevIndex + 1 : prevIndex
-    );
-  };
-
-  // Export function: exports only the top-level keys (ignoring nested structures)
-  const exportToExcel = () => {
-    if (profiles.length === 0) {
-      toast.error("No profiles to export");
-      return;
-    }
-    const exportData = profiles.map((profile) => ({
-      name: profile.name || "",
-      profile_url: profile.profile_url || "",
-      title: profile.title || "",
-      location: profile.location || "",
-    }));
-
-    const worksheet = XLSX.utils.json_to_sheet(exportData);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Profiles");
-    XLSX.writeFile(workbook, "profiles.xlsx");
-  };
-
-  // Get the current profile to display in the carousel
-  const currentProfile = profiles[currentProfileIndex];
+  // Open a profile from another view in the detail (carousel) view
+  const openProfile = (index: number) =>
+    dispatch({ type: "openProfile", index });
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 print:min-h-0 print:bg-white">
       <Toaster position="top-right" />
 
       {/* Header */}
-      <header className="bg-white shadow-sm">
+      <header className="bg-white shadow-sm print:hidden">
         <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
           <h1 className="text-2xl font-semibold text-gray-900">
             LinkedIn Search Export
@@ -169,397 +81,136 @@ function App() {
       </header>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <main className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8 print:hidden">
         {/* Form Section */}
-        <div className="bg-white shadow rounded-lg">
-          <div className="px-4 py-5 sm:p-6">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* LinkedIn Search URL */}
-              <div>
-                <label
-                  htmlFor="linkedinUrl"
-                  className="block text-sm font-medium text-gray-700"
-                >
-                  LinkedIn Search URL *
-                </label>
-                <div className="mt-1">
-                  <input
-                    type="url"
-                    id="linkedinUrl"
-                    value={linkedinUrl}
-                    onChange={(e) => setLinkedinUrl(e.target.value)}
-                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                    placeholder="https://www.linkedin.com/search/results/people/..."
-                    required
-                  />
-                </div>
-                <p className="mt-1 text-sm text-gray-500">
-                  Paste the full LinkedIn search URL here
-                </p>
-              </div>
-
-              {/* Session Cookie */}
-              <div>
-                <label
-                  htmlFor="sessionCookie"
-                  className="block text-sm font-medium text-gray-700"
-                >
-                  LinkedIn Session Cookie *
-                </label>
-                <div className="mt-1">
-                  <textarea
-                    id="sessionCookie"
-                    value={sessionCookie}
-                    onChange={(e) => setSessionCookie(e.target.value)}
-                    rows={3}
-                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                    placeholder="Paste your li_at session cookie here..."
-                    required
-                  />
-                </div>
-                <p className="mt-1 text-sm text-gray-500">
-                  Your LinkedIn session cookie is required for authentication
-                </p>
-              </div>
-
-              {/* Max Profiles */}
-              <div>
-                <label
-                  htmlFor="maxProfiles"
-                  className="block text-sm font-medium text-gray-700"
-                >
-                  Maximum Number of Profiles
-                </label>
-                <div className="mt-1">
-                  <input
-                    type="number"
-                    id="maxProfiles"
-                    value={maxProfiles}
-                    onChange={(e) => setMaxProfiles(Number(e.target.value))}
-                    min="1"
-                    max="5"
-                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                  />
-                </div>
-                <p className="mt-1 text-sm text-gray-500">
-                  Number of profiles to extract (maximum 5)
-                </p>
-              </div>
-
-              {/* Info Box */}
-              <div className="rounded-md bg-blue-50 p-4">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <InformationCircleIcon
-                      className="h-5 w-5 text-blue-400"
-                      aria-hidden="true"
-                    />
-                  </div>
-                  <div className="ml-3 flex-1 md:flex md:justify-between">
-                    <p className="text-sm text-blue-700">
-                      This will scrape LinkedIn profiles from the provided
-                      search URL and display them below.
-                    </p>
-                  </div>
-                </div>
-              </div>
+        <ScrapeForm />
+
+        {/* API Settings */}
+        <ApiSettings />
+
+        {/* Search History */}
+        <RunHistory
+          runs={runSummaries}
+          activeRunId={state.activeRunId}
+          onOpen={openRun}
+          onDelete={removeRun}
+        />
+
+        {/* Import / Export */}
+        <div className="flex justify-end items-start mt-4 space-x-2">
+          <ImportButton onImport={handleImport} />
+          {profiles.length > 0 && <ExportMenu />}
+        </div>
 
-              {/* Submit Button */}
-              <div>
-                <button
-                  type="submit"
-                  disabled={isRunning}
-                  className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white 
-                    ${
-                      isRunning
-                        ? "bg-gray-400 cursor-not-allowed"
-                        : "bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        {/* Results Section */}
+        {profiles.length > 0 && (
+          <div className="mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Scraped Profiles
+              </h2>
+              {/* View Toggle */}
+              <div className="inline-flex rounded-md shadow-sm">
+                {VIEW_MODES.map(({ key, label, icon: Icon }, index) => (
+                  <button
+                    key={key}
+                    onClick={() =>
+                      dispatch({ type: "setViewMode", viewMode: key })
+                    }
+                    aria-pressed={viewMode === key}
+                    className={`flex items-center px-3 py-1 text-sm border border-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                      index === 0 ? "rounded-l-md" : "border-l-0"
+                    } ${
+                      index === VIEW_MODES.length - 1 ? "rounded-r-md" : ""
+                    } ${
+                      viewMode === key
+                        ? "bg-blue-600 text-white border-blue-600"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
                     }`}
-                >
-                  {isRunning ? "Processing..." : "Start Export"}
-                </button>
+                  >
+                    <Icon className="h-4 w-4 mr-1" aria-hidden="true" />
+                    {label}
+                    {key === "compare" && compareIndices.length > 0 && (
+                      <span className="ml-1">({compareIndices.length})</span>
+                    )}
+                  </button>
+                ))}
               </div>
-            </form>
-          </div>
-        </div>
+            </div>
 
-        {/* Export to Excel Button */}
-        {profiles.length > 0 && (
-          <div className="flex justify-end mt-4">
-            <button
-              onClick={exportToExcel}
-              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
-            >
-              Export to Excel
-            </button>
+            {/* Filters */}
+            <FilterBuilder
+              filter={state.filter}
+              onChange={(filter) => dispatch({ type: "setFilter", filter })}
+              matchCount={matchingIndices.length}
+              total={profiles.length}
+            />
           </div>
         )}
 
-        {/* Carousel Section */}
-        {profiles.length > 0 && (
-          <div className="mt-8">
-            <h2 className="text-xl font-semibold text-gray-900 text-center mb-4">
-              Scraped Profiles Carousel
-            </h2>
-            <div className="relative bg-white shadow rounded-lg overflow-hidden">
-              {/* Previous Button */}
-              <button
-                onClick={goToPrevious}
-                disabled={currentProfileIndex === 0}
-                className="absolute left-0 top-4 bg-gray-200 hover:bg-gray-300 p-2 rounded-full focus:outline-none"
-              >
-                &lt;
-              </button>
-
-              {/* Display Current Profile */}
-              <div className="px-6 py-4">
-                {/* Header Section */}
-                <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
-                  <div className="space-y-2">
-                    <h3 className="text-xl font-bold text-gray-900">
-                      {currentProfile.name}
-                      {currentProfile.profile_url && (
-                        <a
-                          href={currentProfile.profile_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="ml-2 text-sm text-blue-600 hover:text-blue-800"
-                        >
-                          View Profile ↗
-                        </a>
-                      )}
-                    </h3>
-                    {currentProfile.title && (
-                      <p className="text-md text-gray-700">
-                        {currentProfile.title}
-                      </p>
-                    )}
-                    {currentProfile.location && (
-                      <p className="text-sm text-gray-600">
-                        {currentProfile.location}
-                      </p>
-                    )}
-                  </div>
-                </div>
-
-                {/* Content Section */}
-                <div className="px-6 py-4 space-y-6">
-                  {/* Experience Section */}
-                  {currentProfile.experiences &&
-                    currentProfile.experiences.length > 0 && (
-                      <div>
-                        <h4 className="text-lg font-semibold text-gray-900 mb-4">
-                          Experience
-                        </h4>
-                        <div className="space-y-6">
-                          {currentProfile.experiences.map((exp, expIndex) => (
-                            <div
-                              key={expIndex}
-                              className="border-l-2 border-gray-200 pl-4"
-                            >
-                              <div className="space-y-2">
-                                <h5 className="font-medium text-gray-900">
-                                  {exp.company}
-                                </h5>
-                                {exp.roles ? (
-                                  // Multiple roles at the same company
-                                  <div className="space-y-4 mt-2">
-                                    {exp.roles.map((role, roleIndex) => (
-                                      <div key={roleIndex} className="ml-4">
-                                        <p className="font-medium text-gray-800">
-                                          {role.title}
-                                        </p>
-                                        {role.dateRange && (
-                                          <p className="text-sm text-gray-600">
-                                            {role.dateRange}
-                                          </p>
-                                        )}
-                                        {role.location && (
-                                          <p className="text-sm text-gray-600">
-                                            {role.location}
-                                          </p>
-                                        )}
-                                        {role.description &&
-                                          role.description.length > 0 && (
-                                            <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
-                                              {role.description.map(
-                                                (desc, descIndex) => (
-                                                  <li key={descIndex}>
-                                                    {desc}
-                                                  </li>
-                                                )
-                                              )}
-                                            </ul>
-                                          )}
-                                      </div>
-                                    ))}
-                                  </div>
-                                ) : (
-                                  // Single role
-                                  <div>
-                                    {exp.title && (
-                                      <p className="font-medium text-gray-800">
-                                        {exp.title}
-                                      </p>
-                                    )}
-                                    {exp.dateRange && (
-                                      <p className="text-sm text-gray-600">
-                                        {exp.dateRange}
-                                      </p>
-                                    )}
-                                    {exp.location && (
-                                      <p className="text-sm text-gray-600">
-                                        {exp.location}
-                                      </p>
-                                    )}
-                                    {exp.description &&
-                                      exp.description.length > 0 && (
-                                        <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
-                                          {exp.description.map(
-                                            (desc, descIndex) => (
-                                              <li key={descIndex}>{desc}</li>
-                                            )
-                                          )}
-                                        </ul>
-                                      )}
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
+        {/* Table Section */}
+        {profiles.length > 0 && viewMode === "table" && (
+          <ProfileTable
+            profiles={profiles}
+            visibleIndices={matchingIndices}
+            triage={triage}
+            priorSightings={priorSightings}
+            compareIndices={compareIndices}
+            onToggleCompare={toggleCompare}
+            selectedIndex={currentIndex}
+            onSelect={openProfile}
+          />
+        )}
 
-                  {/* Education Section */}
-                  {currentProfile.education &&
-                    currentProfile.education.length > 0 && (
-                      <div>
-                        <h4 className="text-lg font-semibold text-gray-900 mb-4">
-                          Education
-                        </h4>
-                        <div className="space-y-4">
-                          {currentProfile.education.map((edu, eduIndex) => (
-                            <div
-                              key={eduIndex}
-                              className="border-l-2 border-gray-200 pl-4"
-                            >
-                              <h5 className="font-medium text-gray-900">
-                                {edu.institution}
-                              </h5>
-                              <p className="text-gray-800">{edu.degree}</p>
-                              {edu.date && (
-                                <p className="text-sm text-gray-600">
-                                  {edu.date}
-                                </p>
-                              )}
-                              {edu.details && edu.details.length > 0 && (
-                                <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
-                                  {edu.details.map((detail, detailIndex) => (
-                                    <li key={detailIndex}>{detail}</li>
-                                  ))}
-                                </ul>
-                              )}
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
+        {/* Ranking Section */}
+        {profiles.length > 0 && viewMode === "ranking" && (
+          <RankingDashboard
+            profiles={filteredProfiles}
+            onSelect={(index) => openProfile(matchingIndices[index])}
+          />
+        )}
 
-                  {/* Evaluation Section */}
-                  {currentProfile.evaluation && (
-                    <div>
-                      <h4 className="text-lg font-semibold text-gray-900 mb-4">
-                        Evaluation
-                      </h4>
-                      <div className="space-y-4">
-                        <div>
-                          <h5 className="font-medium text-gray-900">
-                            Personal Information
-                          </h5>
-                          <p className="text-sm text-gray-600">
-                            Score:{" "}
-                            {
-                              currentProfile.evaluation.personal_information
-                                .score
-                            }
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {
-                              currentProfile.evaluation.personal_information
-                                .explanation
-                            }
-                          </p>
-                        </div>
-                        <div>
-                          <h5 className="font-medium text-gray-900">
-                            Education
-                          </h5>
-                          <p className="text-sm text-gray-600">
-                            Score: {currentProfile.evaluation.education.score}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {currentProfile.evaluation.education.explanation}
-                          </p>
-                        </div>
-                        <div>
-                          <h5 className="font-medium text-gray-900">
-                            Work Experience
-                          </h5>
-                          <p className="text-sm text-gray-600">
-                            Score:{" "}
-                            {currentProfile.evaluation.work_experience.score}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {
-                              currentProfile.evaluation.work_experience
-                                .explanation
-                            }
-                          </p>
-                        </div>
-                        <div>
-                          <h5 className="font-medium text-gray-900">
-                            Overall Score
-                          </h5>
-                          <p className="text-sm text-gray-600">
-                            {currentProfile.evaluation.overall_score}
-                          </p>
-                        </div>
-                        <div>
-                          <h5 className="font-medium text-gray-900">
-                            Actionable Insights
-                          </h5>
-                          <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
-                            {currentProfile.evaluation.actionable_insights.map(
-                              (insight, index) => (
-                                <li key={index}>{insight}</li>
-                              )
-                            )}
-                          </ul>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
+        {/* Compare Section */}
+        {profiles.length > 0 && viewMode === "compare" && (
+          <CompareView
+            profiles={profiles}
+            indices={compareIndices}
+            onRemove={toggleCompare}
+            onOpen={openProfile}
+          />
+        )}
 
-              {/* Next Button */}
-              <button
-                onClick={goToNext}
-                disabled={currentProfileIndex === profiles.length - 1}
-                className="absolute right-0 top-4 bg-gray-200 hover:bg-gray-300 p-2 rounded-full focus:outline-none"
-              >
-                &gt;
-              </button>
-            </div>
-            <p className="text-center mt-2">
-              {currentProfileIndex + 1} of {profiles.length}
-            </p>
-          </div>
+        {/* Analytics Section */}
+        {profiles.length > 0 && viewMode === "analytics" && (
+          <AnalyticsPanel profiles={filteredProfiles} />
         )}
+
+        {/* Carousel Section */}
+        {profiles.length > 0 && viewMode === "carousel" && <ProfileCarousel />}
       </main>
+
+      {/* Print Document */}
+      {printJob && (
+        <div className="hidden print:block">
+          {printJob.profiles.map((profile, index) => (
+            <ProfileOnePager
+              key={index}
+              profile={profile}
+              triage={getTriage(triage, profile)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
 
+function App() {
+  return (
+    <ResultsProvider>
+      <Results />
+    </ResultsProvider>
+  );
+}
+
 export default App;
@@ -0,0 +1,83 @@
+import { ChangeEvent } from "react";
+import { ArrowUpTrayIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { BatchParseResult } from "./batch";
+
+interface BatchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  parsed: BatchParseResult;
+  defaultLimit: number;
+}
+
+// Textarea / CSV / TXT input for a list of search URLs with optional limits
+function BatchInput({
+  value,
+  onChange,
+  parsed,
+  defaultLimit,
+}: BatchInputProps) {
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow uploading the same file again
+    if (!file) return;
+    try {
+      const text = await file.text();
+      onChange(value.trim() ? `${value.trim()}\n${text}` : text);
+    } catch (error) {
+      toast.error("Failed to read file");
+      console.error(error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label
+          htmlFor="batchUrls"
+          className="block text-sm font-medium text-gray-700"
+        >
+          LinkedIn Search URLs *
+        </label>
+        <label className="flex items-center text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+          <ArrowUpTrayIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+          Upload CSV/TXT
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={handleFile}
+            className="sr-only"
+          />
+        </label>
+      </div>
+      <div className="mt-1">
+        <textarea
+          id="batchUrls"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={6}
+          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+          placeholder={
+            '"https://www.linkedin.com/search/results/people/?keywords=...",10\n' +
+            "https://www.linkedin.com/search/results/people/?keywords=..."
+          }
+        />
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        One search per line as <code>url</code>, <code>"url",limit</code> or the
+        URL and limit separated by a tab (default limit {defaultLimit}).{" "}
+        {parsed.entries.length} search
+        {parsed.entries.length === 1 ? "" : "es"} ready.
+      </p>
+      {parsed.errors.length > 0 && (
+        <ul className="mt-1 text-sm text-red-600 list-disc list-inside">
+          {parsed.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default BatchInput;
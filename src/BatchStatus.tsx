@@ -0,0 +1,75 @@
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationCircleIcon,
+  MinusCircleIcon,
+} from "@heroicons/react/24/outline";
+import { BatchEntry, BatchEntryState } from "./batch";
+
+const describe = (state: BatchEntryState) => {
+  switch (state.status) {
+    case "pending":
+      return "Waiting";
+    case "running":
+      return state.total > 0
+        ? `Scraping ${state.completed} of ${state.total}`
+        : "Starting...";
+    case "done":
+      return `${state.count} profile${state.count === 1 ? "" : "s"}`;
+    case "failed":
+      return state.error;
+    case "cancelled":
+      return "Cancelled";
+  }
+};
+
+function StatusIcon({ state }: { state: BatchEntryState }) {
+  switch (state.status) {
+    case "done":
+      return <CheckCircleIcon className="h-5 w-5 text-green-500" />;
+    case "failed":
+      return <ExclamationCircleIcon className="h-5 w-5 text-red-500" />;
+    case "cancelled":
+      return <MinusCircleIcon className="h-5 w-5 text-gray-400" />;
+    case "running":
+      return <ClockIcon className="h-5 w-5 text-blue-500 animate-pulse" />;
+    default:
+      return <ClockIcon className="h-5 w-5 text-gray-300" />;
+  }
+}
+
+interface BatchStatusProps {
+  entries: BatchEntry[];
+  states: BatchEntryState[];
+}
+
+// Per-URL progress of a batch run
+function BatchStatus({ entries, states }: BatchStatusProps) {
+  return (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {entries.map((entry, index) => {
+        const state = states[index] || { status: "pending" };
+        return (
+          <li key={index} className="px-3 py-2 flex items-center text-sm">
+            <StatusIcon state={state} />
+            <span
+              className="ml-2 flex-1 min-w-0 truncate text-gray-900"
+              title={entry.url}
+            >
+              {entry.url}
+            </span>
+            <span
+              className={`ml-4 flex-shrink-0 ${
+                state.status === "failed" ? "text-red-600" : "text-gray-500"
+              }`}
+            >
+              {describe(state)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default BatchStatus;
@@ -0,0 +1,107 @@
+import { useMemo } from "react";
+import { Profile } from "./types";
+import {
+  formatDuration,
+  formatMonth,
+  getCareerSummary,
+  periodMonths,
+} from "./timeline";
+
+// One colour per company, so roles at the same company share a colour
+const COLORS = [
+  "bg-blue-500",
+  "bg-green-500",
+  "bg-purple-500",
+  "bg-yellow-500",
+  "bg-pink-500",
+  "bg-indigo-500",
+];
+
+// Horizontal career timeline with total experience, current tenure and gaps
+function CareerTimeline({ profile }: { profile: Profile }) {
+  const summary = useMemo(() => getCareerSummary(profile), [profile]);
+  const { entries, earliestStart, latestEnd } = summary;
+
+  if (earliestStart === undefined || latestEnd === undefined) return null;
+  const span = latestEnd - earliestStart + 1;
+  const position = (month: number) => ((month - earliestStart) / span) * 100;
+
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-2">
+        Career Timeline
+      </h4>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 mb-4">
+        <span>
+          Total experience:{" "}
+          <span className="font-medium text-gray-900">
+            {formatDuration(summary.totalMonths)}
+          </span>
+        </span>
+        {summary.currentTenureMonths !== undefined && (
+          <span>
+            At {summary.currentCompany}:{" "}
+            <span className="font-medium text-gray-900">
+              {formatDuration(summary.currentTenureMonths)}
+            </span>
+          </span>
+        )}
+        <span>
+          Gaps:{" "}
+          <span className="font-medium text-gray-900">
+            {summary.gaps.length === 0
+              ? "none"
+              : summary.gaps
+                  .map(
+                    (gap) =>
+                      `${formatMonth(gap.start)} – ${formatMonth(
+                        gap.end
+                      )} (${formatDuration(gap.months)})`
+                  )
+                  .join(", ")}
+          </span>
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {entries.map((entry, index) =>
+          entry.period ? (
+            <div key={index} className="flex items-center text-xs">
+              <span
+                className="w-40 flex-shrink-0 truncate text-gray-700"
+                title={`${entry.title || ""} · ${entry.company}`}
+              >
+                {entry.title || entry.company}
+              </span>
+              <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                <div
+                  className={`absolute h-4 rounded ${
+                    COLORS[entry.experienceIndex % COLORS.length]
+                  } ${entry.period.isCurrent ? "opacity-100" : "opacity-75"}`}
+                  style={{
+                    left: `${position(entry.period.start)}%`,
+                    width: `${(periodMonths(entry.period) / span) * 100}%`,
+                  }}
+                  title={`${entry.company}: ${entry.dateRange}`}
+                />
+              </div>
+              <span className="w-20 flex-shrink-0 text-right text-gray-500">
+                {formatDuration(periodMonths(entry.period))}
+              </span>
+            </div>
+          ) : null
+        )}
+        <div className="flex text-xs text-gray-400">
+          <span className="w-40 flex-shrink-0" />
+          <div className="flex-1 flex justify-between">
+            <span>{formatMonth(earliestStart)}</span>
+            <span>{formatMonth(latestEnd)}</span>
+          </div>
+          <span className="w-20 flex-shrink-0" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CareerTimeline;
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import CompareView from "./CompareView";
+import { axeViolations } from "./test/axe";
+import { fullProfile, secondProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("CompareView", () => {
+  it("removes a profile from the comparison", () => {
+    const onRemove = vi.fn();
+    render(
+      <CompareView
+        profiles={[fullProfile, secondProfile]}
+        indices={[0, 1]}
+        onRemove={onRemove}
+        onOpen={vi.fn()}
+      />
+    );
+    fireEvent.click(
+      screen.getByRole("button", {
+        name: "Remove Daniel Okafor from comparison",
+      })
+    );
+    expect(onRemove).toHaveBeenCalledWith(1);
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = render(
+      <CompareView
+        profiles={[fullProfile, secondProfile]}
+        indices={[0, 1]}
+        onRemove={vi.fn()}
+        onOpen={vi.fn()}
+      />
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import { Fragment, ReactNode } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { Profile } from "./types";
+import { flattenRoles } from "./profile";
+import { SCORE_CATEGORIES, getCategoryScore } from "./scoring";
+import { MAX_COMPARE } from "./store";
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Text rows: highlight every cell when the candidates don't all agree
+const differs = (values: string[]) => new Set(values.map(normalize)).size > 1;
+
+// Score rows: best in green, worst in red (only when they differ)
+const scoreClass = (score: number | undefined, scores: number[]) => {
+  if (score === undefined || scores.length < 2) return "";
+  const max = Math.max(...scores);
+  const min = Math.min(...scores);
+  if (max === min) return "";
+  if (score === max) return "bg-green-50 text-green-800 font-semibold";
+  if (score === min) return "bg-red-50 text-red-800";
+  return "";
+};
+
+interface CompareRowProps {
+  label: string;
+  cells: ReactNode[];
+  highlight?: boolean;
+  cellClassNames?: string[];
+}
+
+function CompareRow({
+  label,
+  cells,
+  highlight = false,
+  cellClassNames = [],
+}: CompareRowProps) {
+  return (
+    <tr>
+      <th
+        scope="row"
+        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider align-top bg-gray-50 w-40"
+      >
+        {label}
+      </th>
+      {cells.map((cell, index) => (
+        <td
+          key={index}
+          className={`px-4 py-3 text-sm text-gray-700 align-top ${
+            highlight ? "bg-yellow-50" : ""
+          } ${cellClassNames[index] || ""}`}
+        >
+          {cell}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+interface CompareViewProps {
+  profiles: Profile[];
+  indices: number[];
+  onRemove: (index: number) => void;
+  onOpen: (index: number) => void;
+}
+
+// Selected profiles side by side, one column each, rows aligned by field
+function CompareView({
+  profiles,
+  indices,
+  onRemove,
+  onOpen,
+}: CompareViewProps) {
+  const selected = indices
+    .filter((index) => index < profiles.length)
+    .map((index) => ({ index, profile: profiles[index] }));
+
+  if (selected.length < 2) {
+    return (
+      <div className="bg-white shadow rounded-lg px-6 py-8 text-center text-sm text-gray-500">
+        Select 2 to {MAX_COMPARE} profiles to compare, using the Compare
+        checkboxes in the table or the Compare button on a profile.
+      </div>
+    );
+  }
+
+  const textRow = (label: string, value: (profile: Profile) => string) => {
+    const values = selected.map(({ profile }) => value(profile));
+    return (
+      <CompareRow
+        label={label}
+        cells={values.map((v) => v || "–")}
+        highlight={differs(values)}
+      />
+    );
+  };
+
+  const scoreRow = (
+    label: string,
+    score: (profile: Profile) => number | undefined,
+    explanation?: (profile: Profile) => string | undefined
+  ) => {
+    const values = selected.map(({ profile }) => score(profile));
+    const present = values.filter((v): v is number => v !== undefined);
+    return (
+      <CompareRow
+        label={label}
+        cells={selected.map(({ profile }, i) => (
+          <>
+            <p>{values[i] ?? "–"}</p>
+            {explanation?.(profile) && (
+              <p className="mt-1 text-xs text-gray-600">
+                {explanation(profile)}
+              </p>
+            )}
+          </>
+        ))}
+        cellClassNames={values.map((v) => scoreClass(v, present))}
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 table-fixed">
+        <thead>
+          <tr>
+            <td className="bg-gray-50" />
+            {selected.map(({ index, profile }) => (
+              <th
+                key={index}
+                scope="col"
+                className="px-4 py-3 text-left align-top"
+              >
+                <div className="flex items-start justify-between">
+                  <button
+                    onClick={() => onOpen(index)}
+                    className="text-base font-bold text-gray-900 hover:text-blue-700 text-left"
+                  >
+                    {profile.name || "Unnamed profile"}
+                  </button>
+                  <button
+                    onClick={() => onRemove(index)}
+                    className="ml-2 text-gray-400 hover:text-gray-600"
+                    aria-label={`Remove ${
+                      profile.name || "profile"
+                    } from comparison`}
+                  >
+                    <XMarkIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {textRow("Title", (p) => p.title || "")}
+          {textRow("Location", (p) => p.location || "")}
+          {textRow("Current company", (p) => p.experiences?.[0]?.company || "")}
+          <CompareRow
+            label="Experience"
+            cells={selected.map(({ profile }) => (
+              <ol className="space-y-2 border-l-2 border-gray-200 pl-3">
+                {(profile.experiences || []).flatMap((exp, expIndex) =>
+                  flattenRoles(exp).map((role, roleIndex) => (
+                    <li key={`${expIndex}-${roleIndex}`}>
+                      <p className="font-medium text-gray-800">
+                        {role.title || "–"}
+                      </p>
+                      <p className="text-xs text-gray-600">{exp.company}</p>
+                      {role.dateRange && (
+                        <p className="text-xs text-gray-500">
+                          {role.dateRange}
+                        </p>
+                      )}
+                    </li>
+                  ))
+                )}
+              </ol>
+            ))}
+          />
+          <CompareRow
+            label="Education"
+            cells={selected.map(({ profile }) => (
+              <ul className="space-y-2">
+                {(profile.education || []).map((edu, eduIndex) => (
+                  <li key={eduIndex}>
+                    <p className="font-medium text-gray-800">
+                      {edu.institution}
+                    </p>
+                    <p className="text-xs text-gray-600">{edu.degree}</p>
+                    {edu.date && (
+                      <p className="text-xs text-gray-500">{edu.date}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ))}
+          />
+          {SCORE_CATEGORIES.map(({ key, label }) => (
+            <Fragment key={key}>
+              {scoreRow(
+                label,
+                (p) => getCategoryScore(p, key),
+                (p) => p.evaluation?.[key]?.explanation
+              )}
+            </Fragment>
+          ))}
+          {scoreRow("Overall score", (p) => p.evaluation?.overall_score)}
+          <CompareRow
+            label="Actionable insights"
+            cells={selected.map(({ profile }) => (
+              <ul className="list-disc list-inside space-y-1 text-xs text-gray-600">
+                {(profile.evaluation?.actionable_insights || []).map(
+                  (insight, insightIndex) => (
+                    <li key={insightIndex}>{insight}</li>
+                  )
+                )}
+              </ul>
+            ))}
+          />
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default CompareView;
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import EducationList from "./EducationList";
+import { fullProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("EducationList", () => {
+  it("shows institution, degree, dates and details", () => {
+    render(<EducationList education={fullProfile.education} />);
+    expect(
+      screen.getByText("National Institute of Technology Karnataka")
+    ).toBeTruthy();
+    expect(
+      screen.getByText("Bachelor of Technology - BTech, Computer Science")
+    ).toBeTruthy();
+    expect(screen.getByText("2011 - 2015")).toBeTruthy();
+    expect(screen.getByText("Grade: 8.9 CGPA")).toBeTruthy();
+  });
+
+  it("renders nothing without education", () => {
+    const { container } = render(<EducationList education={undefined} />);
+    expect(container.innerHTML).toBe("");
+  });
+});
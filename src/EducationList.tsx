@@ -0,0 +1,28 @@
+import { Education } from "./types";
+
+function EducationList({ education }: { education?: Education[] }) {
+  if (!education || education.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Education</h4>
+      <div className="space-y-4">
+        {education.map((edu, eduIndex) => (
+          <div key={eduIndex} className="border-l-2 border-gray-200 pl-4">
+            <h5 className="font-medium text-gray-900">{edu.institution}</h5>
+            <p className="text-gray-800">{edu.degree}</p>
+            {edu.date && <p className="text-sm text-gray-600">{edu.date}</p>}
+            {edu.details && edu.details.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
+                {edu.details.map((detail, detailIndex) => (
+                  <li key={detailIndex}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default EducationList;
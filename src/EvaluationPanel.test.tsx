@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import EvaluationPanel from "./EvaluationPanel";
+import { fullProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("EvaluationPanel", () => {
+  it("shows the scores, explanations and insights", () => {
+    render(<EvaluationPanel evaluation={fullProfile.evaluation} />);
+    expect(screen.getAllByText("Score: 9")).toHaveLength(2);
+    expect(screen.getByText("Score: 8")).toBeTruthy();
+    expect(
+      screen.getByText("Strong computer science degree from a top institute.")
+    ).toBeTruthy();
+    expect(screen.getByText("8.7")).toBeTruthy();
+    expect(
+      screen.getByText("Good fit for senior backend and platform roles.")
+    ).toBeTruthy();
+  });
+
+  it("shows a dash for missing scores", () => {
+    render(
+      <EvaluationPanel
+        evaluation={{
+          personal_information: { explanation: "" },
+          education: { score: 6, explanation: "" },
+          work_experience: { explanation: "" },
+          actionable_insights: [],
+        }}
+      />
+    );
+    expect(screen.getAllByText("Score: –")).toHaveLength(2);
+    expect(screen.getByText("–")).toBeTruthy();
+    expect(screen.queryByText("Actionable Insights")).toBeNull();
+  });
+
+  it("renders nothing without an evaluation", () => {
+    const { container } = render(<EvaluationPanel />);
+    expect(container.innerHTML).toBe("");
+  });
+});
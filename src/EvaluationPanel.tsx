@@ -0,0 +1,45 @@
+import { Evaluation } from "./types";
+import { SCORE_CATEGORIES } from "./scoring";
+
+// Sub-scores with their explanations, the overall score and the insights.
+// Any of them may be missing from a partial evaluation.
+function EvaluationPanel({ evaluation }: { evaluation?: Evaluation }) {
+  if (!evaluation) return null;
+  const insights = evaluation.actionable_insights || [];
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Evaluation</h4>
+      <div className="space-y-4">
+        {SCORE_CATEGORIES.map(({ key, label }) => (
+          <div key={key}>
+            <h5 className="font-medium text-gray-900">{label}</h5>
+            <p className="text-sm text-gray-600">
+              Score: {evaluation[key]?.score ?? "–"}
+            </p>
+            <p className="text-sm text-gray-600">
+              {evaluation[key]?.explanation}
+            </p>
+          </div>
+        ))}
+        <div>
+          <h5 className="font-medium text-gray-900">Overall Score</h5>
+          <p className="text-sm text-gray-600">
+            {evaluation.overall_score ?? "–"}
+          </p>
+        </div>
+        {insights.length > 0 && (
+          <div>
+            <h5 className="font-medium text-gray-900">Actionable Insights</h5>
+            <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
+              {insights.map((insight, index) => (
+                <li key={index}>{insight}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EvaluationPanel;
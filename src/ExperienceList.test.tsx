@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import ExperienceList from "./ExperienceList";
+import { fullProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("ExperienceList", () => {
+  it("lists every role of a multi-role experience", () => {
+    render(<ExperienceList experiences={fullProfile.experiences} />);
+    expect(screen.getByText("Finlytics")).toBeTruthy();
+    expect(screen.getByText("Staff Software Engineer")).toBeTruthy();
+    expect(screen.getByText("Senior Software Engineer")).toBeTruthy();
+  });
+
+  it("shows the single role of a plain experience", () => {
+    render(<ExperienceList experiences={fullProfile.experiences} />);
+    expect(screen.getByText("Infosys")).toBeTruthy();
+    expect(screen.getByText("Software Engineer")).toBeTruthy();
+    expect(screen.getByText("Jul 2015 - Dec 2018 · 3 yrs 6 mos")).toBeTruthy();
+  });
+
+  it("shows the parsed skills", () => {
+    render(<ExperienceList experiences={fullProfile.experiences} />);
+    expect(screen.getByText("Go")).toBeTruthy();
+    expect(screen.getByText("PostgreSQL")).toBeTruthy();
+    expect(screen.queryByText(/\+2 skills/)).toBeNull();
+  });
+
+  it("renders nothing without experiences", () => {
+    const { container } = render(<ExperienceList experiences={[]} />);
+    expect(container.innerHTML).toBe("");
+  });
+});
@@ -0,0 +1,82 @@
+import { Experience } from "./types";
+import { parseSkills } from "./profile";
+
+// Work history of a profile: one block per company, with either several
+// roles or the single role the experience itself describes
+function ExperienceList({ experiences }: { experiences?: Experience[] }) {
+  if (!experiences || experiences.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Experience</h4>
+      <div className="space-y-6">
+        {experiences.map((exp, expIndex) => (
+          <div key={expIndex} className="border-l-2 border-gray-200 pl-4">
+            <div className="space-y-2">
+              <h5 className="font-medium text-gray-900">{exp.company}</h5>
+              {exp.roles ? (
+                // Multiple roles at the same company
+                <div className="space-y-4 mt-2">
+                  {exp.roles.map((role, roleIndex) => (
+                    <div key={roleIndex} className="ml-4">
+                      <p className="font-medium text-gray-800">{role.title}</p>
+                      {role.dateRange && (
+                        <p className="text-sm text-gray-600">
+                          {role.dateRange}
+                        </p>
+                      )}
+                      {role.location && (
+                        <p className="text-sm text-gray-600">{role.location}</p>
+                      )}
+                      {role.description && role.description.length > 0 && (
+                        <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
+                          {role.description.map((desc, descIndex) => (
+                            <li key={descIndex}>{desc}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                // Single role
+                <div>
+                  {exp.title && (
+                    <p className="font-medium text-gray-800">{exp.title}</p>
+                  )}
+                  {exp.dateRange && (
+                    <p className="text-sm text-gray-600">{exp.dateRange}</p>
+                  )}
+                  {exp.location && (
+                    <p className="text-sm text-gray-600">{exp.location}</p>
+                  )}
+                  {exp.description && exp.description.length > 0 && (
+                    <ul className="mt-2 list-disc list-inside text-sm text-gray-600 space-y-1">
+                      {exp.description.map((desc, descIndex) => (
+                        <li key={descIndex}>{desc}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {/* Skills */}
+              {parseSkills(exp.skills).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {parseSkills(exp.skills).map((skill) => (
+                    <span
+                      key={skill}
+                      className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700"
+                    >
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ExperienceList;
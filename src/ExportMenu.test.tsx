@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, screen } from "@testing-library/react";
+import ExportMenu from "./ExportMenu";
+import { runExport } from "./exports";
+import { DEFAULT_FIELD_KEYS } from "./exportFields";
+import { axeViolations } from "./test/axe";
+import { renderWithResults } from "./test/render";
+import { fullProfile, secondProfile } from "./fixtures";
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getAllRuns: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock("./exports", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./exports")>()),
+  runExport: vi.fn(),
+}));
+
+const profiles = [fullProfile, secondProfile];
+
+const fieldsButton = () =>
+  screen.getByRole("button", { name: "Fields" }) as HTMLButtonElement;
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.mocked(runExport).mockClear();
+});
+
+describe("ExportMenu", () => {
+  it("exports the shown profiles in the picked format", () => {
+    renderWithResults(<ExportMenu />, { profiles });
+    fireEvent.change(screen.getByLabelText("Export format"), {
+      target: { value: "csv" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Export" }));
+
+    expect(runExport).toHaveBeenCalledTimes(1);
+    const [format, context] = vi.mocked(runExport).mock.calls[0];
+    expect(format.key).toBe("csv");
+    expect(context.profiles).toEqual(profiles);
+    expect(context.fieldKeys).toEqual(DEFAULT_FIELD_KEYS);
+  });
+
+  it("describes the picked format", () => {
+    renderWithResults(<ExportMenu />, { profiles });
+    const select = screen.getByLabelText("Export format");
+    fireEvent.change(select, { target: { value: "vcard" } });
+    expect(
+      document.getElementById(select.getAttribute("aria-describedby")!)
+        ?.textContent
+    ).toBe("Contacts for address books and CRMs");
+  });
+
+  it("only enables the field picker for the tabular formats", () => {
+    renderWithResults(<ExportMenu />, { profiles });
+    expect(fieldsButton().disabled).toBe(false);
+    fireEvent.change(screen.getByLabelText("Export format"), {
+      target: { value: "json" },
+    });
+    expect(fieldsButton().disabled).toBe(true);
+  });
+
+  it("has no axe violations with the field picker open", async () => {
+    const { container } = renderWithResults(<ExportMenu />, { profiles });
+    fireEvent.click(fieldsButton());
+    expect(screen.getByText("Columns for Excel and CSV exports")).toBeTruthy();
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { Fragment, useEffect, useState } from "react";
+import { Popover, Transition } from "@headlessui/react";
+import {
+  AdjustmentsHorizontalIcon,
+  ArrowDownTrayIcon,
+} from "@heroicons/react/24/outline";
+import { DEFAULT_FIELD_KEYS, PROFILE_FIELDS } from "./exportFields";
+import {
+  EXPORT_FORMATS,
+  loadExportFieldKeys,
+  runExport,
+  saveExportFieldKeys,
+} from "./exports";
+import { useResults } from "./store";
+
+// Export format picker with a picker for the columns of the tabular
+// formats, which is disabled for the formats that don't use it
+function ExportMenu() {
+  const { filteredProfiles, triage } = useResults();
+  const [fieldKeys, setFieldKeys] = useState<string[]>(loadExportFieldKeys);
+  const [formatKey, setFormatKey] = useState(EXPORT_FORMATS[0].key);
+  const format =
+    EXPORT_FORMATS.find((candidate) => candidate.key === formatKey) ||
+    EXPORT_FORMATS[0];
+
+  useEffect(() => {
+    saveExportFieldKeys(fieldKeys);
+  }, [fieldKeys]);
+
+  const toggleField = (key: string) =>
+    setFieldKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+
+  return (
+    <div className="flex flex-col items-end">
+      <div className="flex items-center space-x-2">
+        {/* Format */}
+        <label htmlFor="export-format" className="sr-only">
+          Export format
+        </label>
+        <select
+          id="export-format"
+          value={format.key}
+          onChange={(e) => setFormatKey(e.target.value)}
+          aria-describedby="export-format-description"
+          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm border-gray-300 rounded-md"
+        >
+          {EXPORT_FORMATS.map(({ key, label }) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        {/* Field Picker */}
+        <Popover className="relative">
+          <Popover.Button
+            disabled={!format.usesFields}
+            title={
+              format.usesFields
+                ? undefined
+                : "Fields can be picked for Excel and CSV exports"
+            }
+            className="flex items-center px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+          >
+            <AdjustmentsHorizontalIcon
+              className="h-4 w-4 mr-1"
+              aria-hidden="true"
+            />
+            Fields
+          </Popover.Button>
+          <Transition
+            as={Fragment}
+            enter="transition ease-out duration-100"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="transition ease-in duration-75"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Popover.Panel className="absolute right-0 z-10 mt-2 w-64 bg-white shadow-lg rounded-md ring-1 ring-black ring-opacity-5 p-3 max-h-80 overflow-y-auto">
+              <p className="text-xs text-gray-500 mb-2">
+                Columns for Excel and CSV exports
+              </p>
+              {PROFILE_FIELDS.map((field) => (
+                <label
+                  key={field.key}
+                  className="flex items-center py-1 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={field.required || fieldKeys.includes(field.key)}
+                    disabled={field.required}
+                    onChange={() => toggleField(field.key)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="ml-2">{field.label}</span>
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={() => setFieldKeys(DEFAULT_FIELD_KEYS)}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+              >
+                Reset to defaults
+              </button>
+            </Popover.Panel>
+          </Transition>
+        </Popover>
+
+        {/* Export */}
+        <button
+          type="button"
+          onClick={() =>
+            runExport(format, {
+              profiles: filteredProfiles,
+              triage,
+              fieldKeys,
+            })
+          }
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-green-500"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+          Export
+        </button>
+      </div>
+      <p id="export-format-description" className="mt-1 text-xs text-gray-500">
+        {format.description}
+      </p>
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import FilterBuilder from "./FilterBuilder";
+import { ProfileFilter, newFilterGroup } from "./filters";
+import { axeViolations } from "./test/axe";
+
+const filter: ProfileFilter = { match: "all", groups: [newFilterGroup()] };
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+describe("FilterBuilder", () => {
+  it("has no axe violations when open", async () => {
+    const { container } = render(
+      <FilterBuilder
+        filter={filter}
+        onChange={vi.fn()}
+        matchCount={2}
+        total={3}
+      />
+    );
+    const toggle = screen.getByRole("button", { name: /Filters/ });
+    fireEvent.click(toggle);
+    expect(toggle.getAttribute("aria-expanded")).toBe("true");
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { Disclosure } from "@headlessui/react";
+import {
+  ChevronDownIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  EMPTY_FILTER,
+  FILTER_FIELDS,
+  FilterField,
+  FilterGroup,
+  FilterMatch,
+  FilterPreset,
+  FilterRule,
+  ProfileFilter,
+  countActiveRules,
+  loadFilterPresets,
+  newFilterGroup,
+  newFilterRule,
+  saveFilterPresets,
+} from "./filters";
+
+function MatchSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: FilterMatch;
+  onChange: (match: FilterMatch) => void;
+  label: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as FilterMatch)}
+      className="shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm border-gray-300 rounded-md py-1"
+      aria-label={label}
+    >
+      <option value="all">all (AND)</option>
+      <option value="any">any (OR)</option>
+    </select>
+  );
+}
+
+interface FilterBuilderProps {
+  filter: ProfileFilter;
+  onChange: (filter: ProfileFilter) => void;
+  matchCount: number;
+  total: number;
+}
+
+// Rule builder for narrowing down the loaded profiles, with named presets
+// kept in local storage
+function FilterBuilder({
+  filter,
+  onChange,
+  matchCount,
+  total,
+}: FilterBuilderProps) {
+  const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [presetName, setPresetName] = useState("");
+  const activeRules = countActiveRules(filter);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    saveFilterPresets(next);
+  };
+
+  const updateGroup = (groupIndex: number, patch: Partial<FilterGroup>) =>
+    onChange({
+      ...filter,
+      groups: filter.groups.map((group, i) =>
+        i === groupIndex ? { ...group, ...patch } : group
+      ),
+    });
+
+  const removeGroup = (groupIndex: number) =>
+    onChange({
+      ...filter,
+      groups: filter.groups.filter((_, i) => i !== groupIndex),
+    });
+
+  const updateRule = (
+    groupIndex: number,
+    ruleIndex: number,
+    patch: Partial<FilterRule>
+  ) =>
+    updateGroup(groupIndex, {
+      rules: filter.groups[groupIndex].rules.map((rule, i) =>
+        i === ruleIndex ? { ...rule, ...patch } : rule
+      ),
+    });
+
+  const removeRule = (groupIndex: number, ruleIndex: number) => {
+    const rules = filter.groups[groupIndex].rules.filter(
+      (_, i) => i !== ruleIndex
+    );
+    if (rules.length === 0) {
+      removeGroup(groupIndex);
+    } else {
+      updateGroup(groupIndex, { rules });
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error("Please enter a name for the preset");
+      return;
+    }
+    if (activeRules === 0) {
+      toast.error("Add at least one rule before saving");
+      return;
+    }
+    updatePresets([
+      ...presets.filter((preset) => preset.name !== name),
+      { name, filter },
+    ]);
+    setPresetName("");
+    toast.success(`Saved preset "${name}"`);
+  };
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (preset) onChange(preset.filter);
+  };
+
+  const handleDeletePreset = (name: string) =>
+    updatePresets(presets.filter((preset) => preset.name !== name));
+
+  return (
+    <Disclosure as="div" className="mb-4 bg-white shadow rounded-lg">
+      {({ open }) => (
+        <>
+          <Disclosure.Button className="w-full flex justify-between items-center px-4 py-3 sm:px-6 text-sm font-medium text-gray-700 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500">
+            <span>
+              Filters
+              {activeRules > 0 && (
+                <span className="ml-2 text-gray-500 font-normal">
+                  {activeRules} rule{activeRules === 1 ? "" : "s"}, showing{" "}
+                  {matchCount} of {total} profiles
+                </span>
+              )}
+            </span>
+            <ChevronDownIcon
+              className={`h-5 w-5 text-gray-400 ${open ? "rotate-180" : ""}`}
+              aria-hidden="true"
+            />
+          </Disclosure.Button>
+          <Disclosure.Panel className="px-4 pb-5 sm:px-6 space-y-4">
+            {/* Presets */}
+            <div className="flex flex-wrap items-center gap-2">
+              {presets.map((preset) => (
+                <span
+                  key={preset.name}
+                  className="inline-flex items-center rounded-full bg-gray-100 text-sm text-gray-700"
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleLoadPreset(preset.name)}
+                    className="pl-3 pr-1 py-1 hover:text-blue-700"
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeletePreset(preset.name)}
+                    className="pr-2 py-1 text-gray-400 hover:text-gray-600"
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <XMarkIcon className="h-3 w-3" aria-hidden="true" />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+                className="shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm border-gray-300 rounded-md py-1"
+                placeholder="Preset name"
+                aria-label="Preset name"
+              />
+              <button
+                type="button"
+                onClick={handleSavePreset}
+                className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+              >
+                Save preset
+              </button>
+            </div>
+
+            {/* Groups */}
+            {filter.groups.length > 1 && (
+              <div className="flex items-center text-sm text-gray-700 space-x-2">
+                <span>Match</span>
+                <MatchSelect
+                  value={filter.match}
+                  onChange={(match) => onChange({ ...filter, match })}
+                  label="Combine groups"
+                />
+                <span>of the groups</span>
+              </div>
+            )}
+            {filter.groups.map((group, groupIndex) => (
+              <div
+                key={groupIndex}
+                className="border border-gray-200 rounded-md p-3 space-y-2"
+              >
+                <div className="flex items-center justify-between text-sm text-gray-700">
+                  <div className="flex items-center space-x-2">
+                    <span>Match</span>
+                    <MatchSelect
+                      value={group.match}
+                      onChange={(match) => updateGroup(groupIndex, { match })}
+                      label={`Combine rules of group ${groupIndex + 1}`}
+                    />
+                    <span>of these rules</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeGroup(groupIndex)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label={`Remove group ${groupIndex + 1}`}
+                  >
+                    <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                </div>
+                {group.rules.map((rule, ruleIndex) => {
+                  const field = FILTER_FIELDS.find((f) => f.key === rule.field);
+                  return (
+                    <div
+                      key={ruleIndex}
+                      className="flex items-center space-x-2"
+                    >
+                      <select
+                        value={rule.field}
+                        onChange={(e) =>
+                          updateRule(groupIndex, ruleIndex, {
+                            field: e.target.value as FilterField,
+                            value: "",
+                          })
+                        }
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm border-gray-300 rounded-md"
+                        aria-label="Field"
+                      >
+                        {FILTER_FIELDS.map(({ key, label }) => (
+                          <option key={key} value={key}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type={field?.numeric ? "number" : "text"}
+                        min={field?.numeric ? 0 : undefined}
+                        step="any"
+                        value={rule.value}
+                        onChange={(e) =>
+                          updateRule(groupIndex, ruleIndex, {
+                            value: e.target.value,
+                          })
+                        }
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full text-sm border-gray-300 rounded-md"
+                        placeholder={field?.placeholder}
+                        aria-label={field?.label}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeRule(groupIndex, ruleIndex)}
+                        className="text-gray-400 hover:text-gray-600"
+                        aria-label="Remove rule"
+                      >
+                        <XMarkIcon className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateGroup(groupIndex, {
+                      rules: [...group.rules, newFilterRule()],
+                    })
+                  }
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Add rule
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...filter,
+                    groups: [...filter.groups, newFilterGroup()],
+                  })
+                }
+                className="flex items-center px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+                Add group
+              </button>
+              {filter.groups.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(EMPTY_FILTER)}
+                  className="text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              Separate several values with commas to match any of them. Rules
+              apply to the table, ranking, carousel, analytics and exports.
+            </p>
+          </Disclosure.Panel>
+        </>
+      )}
+    </Disclosure>
+  );
+}
+
+export default FilterBuilder;
@@ -0,0 +1,95 @@
+import { ChangeEvent, Fragment, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { ArrowUpTrayIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { Profile } from "./types";
+import { ImportError, ImportResult, importFile } from "./importer";
+
+interface ImportButtonProps {
+  onImport: (profiles: Profile[], fileName: string) => void;
+}
+
+// Loads a JSON/XLSX export and lists any rows that could not be imported
+function ImportButton({ onImport }: ImportButtonProps) {
+  const [report, setReport] = useState<
+    (ImportResult & { fileName: string }) | null
+  >(null);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow importing the same file again
+    if (!file) return;
+    try {
+      const result = await importFile(file);
+      if (result.profiles.length > 0) {
+        onImport(result.profiles, file.name);
+        toast.success(
+          `Imported ${result.profiles.length} profile${
+            result.profiles.length === 1 ? "" : "s"
+          }`
+        );
+      } else {
+        toast.error("No valid profiles found in the file");
+      }
+      if (result.issues.length > 0) {
+        setReport({ ...result, fileName: file.name });
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof ImportError ? error.message : "Failed to import file"
+      );
+      console.error(error);
+    }
+  };
+
+  return (
+    <>
+      <label className="flex items-center px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 cursor-pointer">
+        <ArrowUpTrayIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+        Import
+        <input
+          type="file"
+          accept=".json,.xlsx,.xls,application/json"
+          onChange={handleFile}
+          className="sr-only"
+        />
+      </label>
+
+      {/* Import Report */}
+      <Transition appear show={report !== null} as={Fragment}>
+        <Dialog
+          as="div"
+          className="relative z-20"
+          onClose={() => setReport(null)}
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+          <div className="fixed inset-0 flex items-center justify-center p-4">
+            <Dialog.Panel className="w-full max-w-lg bg-white rounded-lg shadow-xl p-6">
+              <Dialog.Title className="text-lg font-medium text-gray-900">
+                Import report: {report?.fileName}
+              </Dialog.Title>
+              <p className="mt-1 text-sm text-gray-600">
+                {report?.profiles.length} imported, {report?.skipped} skipped.
+              </p>
+              <ul className="mt-4 max-h-72 overflow-y-auto text-sm text-red-600 list-disc list-inside space-y-1">
+                {report?.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={() => setReport(null)}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+                >
+                  Close
+                </button>
+              </div>
+            </Dialog.Panel>
+          </div>
+        </Dialog>
+      </Transition>
+    </>
+  );
+}
+
+export default ImportButton;
@@ -0,0 +1,22 @@
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { Profile } from "./types";
+import { describeMissingSections } from "./normalize";
+
+// Marks a profile whose payload was missing some sections
+function PartialDataBadge({ profile }: { profile: Profile }) {
+  const missing = describeMissingSections(profile);
+  if (missing.length === 0) return null;
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-800"
+      title={`Missing:\n${missing.join("\n")}`}
+    >
+      <ExclamationTriangleIcon className="h-3 w-3 mr-1" aria-hidden="true" />
+      Partial data
+      {/* The title is only shown on hover */}
+      <span className="sr-only">, missing: {missing.join(", ")}</span>
+    </span>
+  );
+}
+
+export default PartialDataBadge;
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, screen } from "@testing-library/react";
+import ProfileCard from "./ProfileCard";
+import { ResultsProbe, renderWithResults } from "./test/render";
+import { fullProfile, secondProfile } from "./fixtures";
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getAllRuns: vi.fn().mockResolvedValue([]),
+}));
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+const renderCard = (activeRunId: number | null = null) =>
+  renderWithResults(
+    <>
+      <ProfileCard profile={fullProfile} index={0} />
+      <ResultsProbe />
+    </>,
+    { profiles: [fullProfile, secondProfile], activeRunId }
+  );
+
+describe("ProfileCard", () => {
+  it("shows the header, experience, education and evaluation", () => {
+    renderCard();
+    expect(screen.getByRole("heading", { name: /Priya Raman/ })).toBeTruthy();
+    expect(
+      screen.getByText("Staff Software Engineer at Finlytics")
+    ).toBeTruthy();
+    expect(screen.getByText("Finlytics")).toBeTruthy();
+    expect(
+      screen.getByText("Bachelor of Technology - BTech, Computer Science")
+    ).toBeTruthy();
+    expect(
+      screen.getByText("Good fit for senior backend and platform roles.")
+    ).toBeTruthy();
+  });
+
+  it("adds the profile to the compare set", () => {
+    renderCard();
+    fireEvent.click(screen.getByLabelText("Compare"));
+    expect(screen.getByTestId("compare-indices").textContent).toBe("0");
+  });
+
+  it("offers a link only for stored runs", () => {
+    renderCard();
+    expect(screen.queryByRole("button", { name: /Copy link/ })).toBeNull();
+    cleanup();
+    renderCard(3);
+    expect(screen.getByRole("button", { name: /Copy link/ })).toBeTruthy();
+  });
+
+  it("explains why a profile without URL can't be triaged", () => {
+    renderWithResults(
+      <ProfileCard
+        profile={{ ...fullProfile, profile_url: undefined }}
+        index={0}
+      />
+    );
+    expect(screen.getByText(/has no URL/)).toBeTruthy();
+  });
+});
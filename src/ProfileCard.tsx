@@ -0,0 +1,153 @@
+import { toast } from "react-hot-toast";
+import {
+  DocumentArrowDownIcon,
+  LinkIcon,
+  PrinterIcon,
+} from "@heroicons/react/24/outline";
+import { Profile } from "./types";
+import { getTriage, getTriageKey } from "./triage";
+import { getPriorSighting } from "./identity";
+import { toFileSlug } from "./download";
+import { downloadProfilesPdf } from "./pdf";
+import { getShareUrl, toRoute } from "./routing";
+import { useResults } from "./store";
+import PartialDataBadge from "./PartialDataBadge";
+import SeenBeforeBadge from "./SeenBeforeBadge";
+import TriageControls from "./TriageControls";
+import CareerTimeline from "./CareerTimeline";
+import ExperienceList from "./ExperienceList";
+import EducationList from "./EducationList";
+import EvaluationPanel from "./EvaluationPanel";
+
+interface ProfileCardProps {
+  profile: Profile;
+  index: number; // position in the loaded profiles, for compare
+}
+
+// Full detail view of one profile with its triage controls
+function ProfileCard({ profile, index }: ProfileCardProps) {
+  const {
+    state,
+    priorSightings,
+    triage,
+    updateTriage,
+    printProfiles,
+    toggleCompare,
+  } = useResults();
+
+  const fileName = toFileSlug(profile.name || "profile");
+
+  const downloadPdf = () => {
+    try {
+      downloadProfilesPdf([profile], triage, fileName);
+    } catch (error) {
+      toast.error("Could not create the PDF");
+      console.error(error);
+    }
+  };
+
+  // Links only work for results stored in the history
+  const copyLink = () => {
+    if (state.activeRunId === null) return;
+    const url = getShareUrl(toRoute(state.activeRunId, state.profiles, index));
+    navigator.clipboard
+      .writeText(url)
+      .then(() => toast.success("Link copied"))
+      .catch(() => toast.error("Could not copy the link"));
+  };
+
+  return (
+    <div className="px-6 py-4">
+      {/* Header Section */}
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+        <div className="space-y-2">
+          <h3 className="text-xl font-bold text-gray-900">
+            {profile.name}
+            {profile.profile_url && (
+              <a
+                href={profile.profile_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                View Profile ↗
+              </a>
+            )}
+          </h3>
+          {profile.title && (
+            <p className="text-md text-gray-700">{profile.title}</p>
+          )}
+          {profile.location && (
+            <p className="text-sm text-gray-600">{profile.location}</p>
+          )}
+          <div className="flex items-center space-x-2">
+            <PartialDataBadge profile={profile} />
+            <SeenBeforeBadge
+              sighting={getPriorSighting(priorSightings, profile)}
+            />
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={state.compareIndices.includes(index)}
+                onChange={() => toggleCompare(index)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-1">Compare</span>
+            </label>
+            <button
+              type="button"
+              onClick={downloadPdf}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <DocumentArrowDownIcon
+                className="h-4 w-4 mr-1"
+                aria-hidden="true"
+              />
+              Download PDF
+            </button>
+            <button
+              type="button"
+              onClick={() => printProfiles([profile], fileName)}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <PrinterIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+              Print
+            </button>
+            {state.activeRunId !== null && (
+              <button
+                type="button"
+                onClick={copyLink}
+                className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                title="Teammates can open it once they have this run stored or imported"
+              >
+                <LinkIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+                Copy link
+              </button>
+            )}
+          </div>
+          {/* Triage */}
+          {profile.profile_url ? (
+            <TriageControls
+              triage={getTriage(triage, profile)}
+              onChange={(patch) => updateTriage(getTriageKey(profile)!, patch)}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">
+              This profile has no URL, so it can't be shortlisted or tagged.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Content Section */}
+      <div className="px-6 py-4 space-y-6">
+        <CareerTimeline profile={profile} />
+        <ExperienceList experiences={profile.experiences} />
+        <EducationList education={profile.education} />
+        <EvaluationPanel evaluation={profile.evaluation} />
+      </div>
+    </div>
+  );
+}
+
+export default ProfileCard;
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, screen } from "@testing-library/react";
+import ProfileCarousel from "./ProfileCarousel";
+import { runExport } from "./exports";
+import { axeViolations } from "./test/axe";
+import { renderWithResults } from "./test/render";
+import { fullProfile, secondProfile, thirdProfile } from "./fixtures";
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getAllRuns: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock("./exports", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./exports")>()),
+  runExport: vi.fn(),
+}));
+
+const profiles = [fullProfile, secondProfile, thirdProfile];
+
+const press = (key: string, target: Element = document.body) =>
+  fireEvent.keyDown(target, { key });
+
+const currentName = () =>
+  screen.getByRole("group", { name: /of 3/ }).getAttribute("aria-label");
+
+const isPressed = (name: string) =>
+  screen.getByRole("button", { name }).getAttribute("aria-pressed");
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.mocked(runExport).mockClear();
+});
+
+describe("ProfileCarousel", () => {
+  it("steps through the profiles with the buttons", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+    expect(screen.getByRole("heading", { name: /Priya Raman/ })).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Next profile" }));
+    expect(screen.getByRole("heading", { name: /Daniel Okafor/ })).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Previous profile" }));
+    expect(screen.getByRole("heading", { name: /Priya Raman/ })).toBeTruthy();
+  });
+
+  it("disables the buttons at either end", () => {
+    renderWithResults(<ProfileCarousel />, { profiles, currentIndex: 2 });
+    expect(
+      (
+        screen.getByRole("button", {
+          name: "Next profile",
+        }) as HTMLButtonElement
+      ).disabled
+    ).toBe(true);
+    expect(
+      (
+        screen.getByRole("button", {
+          name: "Previous profile",
+        }) as HTMLButtonElement
+      ).disabled
+    ).toBe(false);
+  });
+
+  it("says so when the filters hide every profile", () => {
+    renderWithResults(<ProfileCarousel />, {
+      profiles,
+      filter: {
+        match: "all",
+        groups: [
+          { match: "all", rules: [{ field: "location", value: "Atlantis" }] },
+        ],
+      },
+    });
+    expect(screen.getByText("No profiles match the filters")).toBeTruthy();
+  });
+
+  it("announces the position in a live region", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+    const status = screen.getByText("Profile 1 of 3");
+    expect(status.getAttribute("aria-live")).toBe("polite");
+
+    fireEvent.click(screen.getByRole("button", { name: "Next profile" }));
+    expect(status.textContent).toBe("Profile 2 of 3");
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = renderWithResults(<ProfileCarousel />, {
+      profiles,
+    });
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
+
+describe("ProfileCarousel keyboard shortcuts", () => {
+  it("moves with the arrow keys and j / k", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+    expect(currentName()).toMatch(/^Priya Raman/);
+
+    press("ArrowRight");
+    expect(currentName()).toMatch(/^Daniel Okafor/);
+    press("j");
+    expect(currentName()).toMatch(/^Mei Lin Chen/);
+    press("j");
+    expect(currentName()).toMatch(/^Mei Lin Chen/);
+    press("ArrowLeft");
+    expect(currentName()).toMatch(/^Daniel Okafor/);
+    press("k");
+    expect(currentName()).toMatch(/^Priya Raman/);
+  });
+
+  it("toggles shortlist with s and reject with r", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+
+    press("s");
+    expect(isPressed("Shortlisted")).toBe("true");
+    press("r");
+    expect(isPressed("Rejected")).toBe("true");
+    expect(isPressed("Shortlist")).toBe("false");
+    press("r");
+    expect(isPressed("Reject")).toBe("false");
+  });
+
+  it("exports the filtered profiles to Excel with e", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+    press("e");
+    expect(runExport).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "xlsx" }),
+      expect.objectContaining({ profiles })
+    );
+  });
+
+  it("ignores keys typed into a field or with a modifier", () => {
+    renderWithResults(<ProfileCarousel />, { profiles });
+    press("j", screen.getByPlaceholderText("Add tag..."));
+    fireEvent.keyDown(document.body, { key: "j", ctrlKey: true });
+    expect(currentName()).toMatch(/^Priya Raman/);
+  });
+
+  it("ignores keys aimed at other controls or an open dialog", () => {
+    const { container } = renderWithResults(
+      <>
+        <button type="button">Export</button>
+        <ProfileCarousel />
+      </>,
+      { profiles }
+    );
+    press("e", screen.getByRole("button", { name: "Export" }));
+    expect(runExport).not.toHaveBeenCalled();
+
+    const dialog = document.createElement("div");
+    dialog.setAttribute("aria-modal", "true");
+    container.appendChild(dialog);
+    press("j");
+    expect(currentName()).toMatch(/^Priya Raman/);
+  });
+});
@@ -0,0 +1,220 @@
+import { useEffect, useRef } from "react";
+import { toast } from "react-hot-toast";
+import { TriageStatus, getTriage, getTriageKey } from "./triage";
+import { EXPORT_FORMATS, loadExportFieldKeys, runExport } from "./exports";
+import { useResults } from "./store";
+import ProfileCard from "./ProfileCard";
+import ProfileErrorBoundary from "./ProfileErrorBoundary";
+
+const SHORTCUTS = [
+  { keys: ["←", "k"], action: "previous" },
+  { keys: ["→", "j"], action: "next" },
+  { keys: ["s"], action: "shortlist" },
+  { keys: ["r"], action: "reject" },
+  { keys: ["e"], action: "export to Excel" },
+];
+
+// Shortcuts must not fire while the user is typing
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Keys pressed on another control of the page (a menu button, the view
+// toggle...) or in a dialog open over the carousel belong to that control
+const isElsewhere = (
+  target: EventTarget | null,
+  carousel: HTMLElement | null
+) =>
+  document.querySelector('[aria-modal="true"]') !== null ||
+  (target instanceof HTMLElement &&
+    target !== document.body &&
+    !carousel?.contains(target));
+
+const NAV_BUTTON_CLASSES =
+  "absolute top-4 bg-gray-200 hover:bg-gray-300 p-2 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500";
+
+// One profile at a time, stepping through the profiles that pass the
+// filters. Follows the WAI-ARIA carousel pattern: the slide is labelled with
+// its position, which is also announced through a live region.
+function ProfileCarousel() {
+  const {
+    state,
+    dispatch,
+    matchingIndices,
+    filteredProfiles,
+    triage,
+    updateTriage,
+  } = useResults();
+  const { profiles, currentIndex } = state;
+  const carouselRef = useRef<HTMLElement>(null);
+  const slideRef = useRef<HTMLDivElement>(null);
+
+  // Position of the current profile among the filtered ones, -1 when the
+  // filters hide it
+  const position = matchingIndices.indexOf(currentIndex);
+  const profile = profiles[currentIndex];
+
+  // Navigation functions for the carousel, skipping filtered out profiles
+  const goToPrevious = () => {
+    if (position > 0) {
+      dispatch({ type: "select", index: matchingIndices[position - 1] });
+    }
+  };
+
+  const goToNext = () => {
+    if (position < matchingIndices.length - 1) {
+      dispatch({ type: "select", index: matchingIndices[position + 1] });
+    }
+  };
+
+  const toggleStatus = (status: TriageStatus) => {
+    const key = profile && getTriageKey(profile);
+    if (!key) {
+      toast.error("This profile has no URL, so it can't be triaged");
+      return;
+    }
+    const current = getTriage(triage, profile).status;
+    updateTriage(key, { status: current === status ? undefined : status });
+  };
+
+  const exportToExcel = () =>
+    runExport(EXPORT_FORMATS.find((format) => format.key === "xlsx")!, {
+      profiles: filteredProfiles,
+      triage,
+      fieldKeys: loadExportFieldKeys(),
+    });
+
+  // Handlers are recreated every render, so the listener always sees the
+  // current profile
+  const handlers: Record<string, () => void> = {
+    ArrowLeft: goToPrevious,
+    k: goToPrevious,
+    ArrowRight: goToNext,
+    j: goToNext,
+    s: () => toggleStatus("shortlisted"),
+    r: () => toggleStatus("rejected"),
+    e: exportToExcel,
+  };
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.defaultPrevented ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.altKey ||
+        isTyping(e.target) ||
+        isElsewhere(e.target, carouselRef.current)
+      ) {
+        return;
+      }
+      const handler = handlersRef.current[e.key];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Move focus to the new slide, unless the user is clicking through with
+  // the previous / next buttons or focus is elsewhere on the page (e.g. the
+  // Cancel button while a scrape streams in)
+  useEffect(() => {
+    const active = document.activeElement;
+    const onNavButton =
+      active instanceof HTMLButtonElement &&
+      active.dataset.carouselNav !== undefined &&
+      !active.disabled;
+    const focusLost = !active || active === document.body;
+    if (!onNavButton && (focusLost || carouselRef.current?.contains(active))) {
+      slideRef.current?.focus({ preventScroll: true });
+    }
+  }, [currentIndex]);
+
+  if (matchingIndices.length === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg px-6 py-8 text-center text-sm text-gray-500">
+        No profiles match the filters
+      </div>
+    );
+  }
+
+  const positionLabel =
+    position === -1
+      ? "Hidden by the filters"
+      : `${position + 1} of ${matchingIndices.length}`;
+
+  return (
+    <section
+      ref={carouselRef}
+      aria-roledescription="carousel"
+      aria-label="Profiles"
+    >
+      <div className="relative bg-white shadow rounded-lg overflow-hidden">
+        {/* Previous Button */}
+        <button
+          onClick={goToPrevious}
+          disabled={position <= 0}
+          data-carousel-nav
+          aria-label="Previous profile"
+          className={`left-0 ${NAV_BUTTON_CLASSES}`}
+        >
+          &lt;
+        </button>
+
+        {/* Display Current Profile */}
+        {profile && (
+          <div
+            ref={slideRef}
+            tabIndex={-1}
+            role="group"
+            aria-roledescription="slide"
+            aria-label={`${profile.name || "Profile"}, ${positionLabel}`}
+            className="focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+          >
+            <ProfileErrorBoundary key={currentIndex} profile={profile}>
+              <ProfileCard profile={profile} index={currentIndex} />
+            </ProfileErrorBoundary>
+          </div>
+        )}
+
+        {/* Next Button */}
+        <button
+          onClick={goToNext}
+          disabled={position === matchingIndices.length - 1}
+          data-carousel-nav
+          aria-label="Next profile"
+          className={`right-0 ${NAV_BUTTON_CLASSES}`}
+        >
+          &gt;
+        </button>
+      </div>
+      <p className="text-center mt-2" aria-live="polite" aria-atomic="true">
+        {position === -1 ? positionLabel : `Profile ${positionLabel}`}
+      </p>
+      <p className="text-center mt-1 text-xs text-gray-500">
+        Shortcuts:{" "}
+        {SHORTCUTS.map(({ keys, action }, index) => (
+          <span key={action}>
+            {index > 0 && " · "}
+            {keys.map((key) => (
+              <kbd
+                key={key}
+                className="mx-0.5 px-1 rounded border border-gray-300 bg-white font-mono"
+              >
+                {key}
+              </kbd>
+            ))}{" "}
+            {action}
+          </span>
+        ))}
+      </p>
+    </section>
+  );
+}
+
+export default ProfileCarousel;
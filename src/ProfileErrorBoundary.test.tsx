@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import ProfileErrorBoundary from "./ProfileErrorBoundary";
+import { normalizeProfile } from "./normalize";
+import { fullPayload } from "./fixtures";
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+const fullProfile = normalizeProfile(fullPayload);
+
+function Broken(): JSX.Element {
+  throw new Error("boom");
+}
+
+describe("ProfileErrorBoundary", () => {
+  it("renders the profile when nothing throws", () => {
+    render(
+      <ProfileErrorBoundary profile={fullProfile}>
+        <p>Profile body</p>
+      </ProfileErrorBoundary>
+    );
+    expect(screen.getByText("Profile body")).toBeTruthy();
+  });
+
+  it("shows the fallback with the raw data when a child throws", () => {
+    // React and the boundary both log the error
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    render(
+      <ProfileErrorBoundary profile={fullProfile}>
+        <Broken />
+      </ProfileErrorBoundary>
+    );
+    expect(screen.getByText("This profile couldn't be displayed")).toBeTruthy();
+    expect(
+      screen.getByText(/Priya Raman has data in an unexpected shape/)
+    ).toBeTruthy();
+    expect(screen.getByText("Raw data")).toBeTruthy();
+  });
+});
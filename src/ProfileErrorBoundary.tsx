@@ -0,0 +1,52 @@
+import { Component, ErrorInfo, ReactNode } from "react";
+import { Profile } from "./types";
+
+interface ProfileErrorBoundaryProps {
+  profile: Profile;
+  children: ReactNode;
+}
+
+interface ProfileErrorBoundaryState {
+  error: Error | null;
+}
+
+// Keeps one unrenderable profile from taking down the whole page. Give it a
+// `key` per profile so moving to another profile clears the error.
+class ProfileErrorBoundary extends Component<
+  ProfileErrorBoundaryProps,
+  ProfileErrorBoundaryState
+> {
+  state: ProfileErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ProfileErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error("Failed to render profile", error, info.componentStack);
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+    const { profile } = this.props;
+    return (
+      <div className="px-6 py-8 text-center space-y-2">
+        <p className="text-sm font-medium text-gray-900">
+          This profile couldn't be displayed
+        </p>
+        <p className="text-sm text-gray-500">
+          {profile.name || "The profile"} has data in an unexpected shape. The
+          other profiles are not affected.
+        </p>
+        <details className="text-left text-xs text-gray-600">
+          <summary className="cursor-pointer">Raw data</summary>
+          <pre className="mt-2 p-2 bg-gray-50 rounded overflow-x-auto">
+            {JSON.stringify(profile, null, 2)}
+          </pre>
+        </details>
+      </div>
+    );
+  }
+}
+
+export default ProfileErrorBoundary;
@@ -0,0 +1,174 @@
+import { Profile } from "./types";
+import { Triage } from "./triage";
+import { flattenRoles, parseSkills } from "./profile";
+import { SCORE_CATEGORIES, getCategoryScore } from "./scoring";
+import { formatDuration, getCareerSummary } from "./timeline";
+
+interface ProfileOnePagerProps {
+  profile: Profile;
+  triage: Triage;
+}
+
+// Compact A4 layout of a profile for printing or saving as PDF. Only shown
+// in print; each one-pager starts on a new page.
+function ProfileOnePager({ profile, triage }: ProfileOnePagerProps) {
+  const { totalMonths } = getCareerSummary(profile);
+  const evaluation = profile.evaluation;
+
+  return (
+    <article className="break-after-page last:break-after-auto text-gray-900 text-sm">
+      {/* Header */}
+      <header className="border-b border-gray-300 pb-3 mb-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold">{profile.name}</h1>
+            {profile.title && <p className="text-base">{profile.title}</p>}
+            <p className="text-gray-600">
+              {[
+                profile.location,
+                profile.experiences?.[0]?.company,
+                totalMonths
+                  ? `${formatDuration(totalMonths)} experience`
+                  : undefined,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+          {evaluation?.overall_score !== undefined && (
+            <div className="text-right">
+              <p className="text-xs uppercase text-gray-500">Overall score</p>
+              <p className="text-2xl font-bold">{evaluation.overall_score}</p>
+            </div>
+          )}
+        </div>
+        {profile.profile_url && (
+          <p className="mt-1 text-xs text-gray-600 break-all">
+            {profile.profile_url}
+          </p>
+        )}
+        {(triage.status || (triage.tags || []).length > 0) && (
+          <p className="mt-1 text-xs text-gray-600">
+            {[
+              triage.status === "shortlisted" ? "Shortlisted" : triage.status,
+              ...(triage.tags || []),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        )}
+      </header>
+
+      {/* Experience */}
+      {(profile.experiences || []).length > 0 && (
+        <section className="mb-4">
+          <h2 className="text-base font-semibold border-b border-gray-200 mb-2">
+            Experience
+          </h2>
+          <div className="space-y-2">
+            {(profile.experiences || []).map((exp, expIndex) => (
+              <div key={expIndex} className="break-inside-avoid">
+                <p className="font-semibold">{exp.company}</p>
+                {flattenRoles(exp).map((role, roleIndex) => (
+                  <div key={roleIndex} className="ml-3">
+                    <p>
+                      {role.title}
+                      {role.dateRange && (
+                        <span className="text-gray-600">
+                          {" "}
+                          · {role.dateRange}
+                        </span>
+                      )}
+                    </p>
+                    {(role.description || []).length > 0 && (
+                      <ul className="list-disc list-inside text-xs text-gray-700">
+                        {(role.description || []).map((desc, descIndex) => (
+                          <li key={descIndex}>{desc}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+                {parseSkills(exp.skills).length > 0 && (
+                  <p className="ml-3 text-xs text-gray-600">
+                    Skills: {parseSkills(exp.skills).join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Education */}
+      {(profile.education || []).length > 0 && (
+        <section className="mb-4">
+          <h2 className="text-base font-semibold border-b border-gray-200 mb-2">
+            Education
+          </h2>
+          <div className="space-y-1">
+            {(profile.education || []).map((edu, eduIndex) => (
+              <p key={eduIndex} className="break-inside-avoid">
+                <span className="font-semibold">{edu.institution}</span>
+                {edu.degree && <span> · {edu.degree}</span>}
+                {edu.date && (
+                  <span className="text-gray-600"> · {edu.date}</span>
+                )}
+              </p>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Evaluation */}
+      {evaluation && (
+        <section className="mb-4 break-inside-avoid">
+          <h2 className="text-base font-semibold border-b border-gray-200 mb-2">
+            Evaluation
+          </h2>
+          <table className="w-full text-xs mb-2">
+            <tbody>
+              {SCORE_CATEGORIES.map(({ key, label }) => (
+                <tr key={key} className="align-top">
+                  <th className="text-left font-semibold pr-2 py-0.5 w-40">
+                    {label}
+                  </th>
+                  <td className="pr-2 py-0.5 w-10">
+                    {getCategoryScore(profile, key) ?? "–"}
+                  </td>
+                  <td className="py-0.5 text-gray-700">
+                    {evaluation[key]?.explanation}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(evaluation.actionable_insights || []).length > 0 && (
+            <>
+              <h3 className="font-semibold">Actionable Insights</h3>
+              <ul className="list-disc list-inside text-xs text-gray-700">
+                {(evaluation.actionable_insights || []).map(
+                  (insight, index) => (
+                    <li key={index}>{insight}</li>
+                  )
+                )}
+              </ul>
+            </>
+          )}
+        </section>
+      )}
+
+      {/* Notes */}
+      {triage.notes?.trim() && (
+        <section className="break-inside-avoid">
+          <h2 className="text-base font-semibold border-b border-gray-200 mb-2">
+            Notes
+          </h2>
+          <p className="text-xs whitespace-pre-line">{triage.notes}</p>
+        </section>
+      )}
+    </article>
+  );
+}
+
+export default ProfileOnePager;
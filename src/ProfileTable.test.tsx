@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import ProfileTable from "./ProfileTable";
+import { axeViolations } from "./test/axe";
+import {
+  fullProfile,
+  partialProfile,
+  secondProfile,
+  thirdProfile,
+} from "./fixtures";
+
+const profiles = [fullProfile, secondProfile, thirdProfile, partialProfile];
+
+const renderTable = (onSelect = vi.fn()) =>
+  render(
+    <ProfileTable
+      profiles={profiles}
+      visibleIndices={[0, 1, 2, 3]}
+      triage={{}}
+      priorSightings={
+        new Map([
+          [
+            thirdProfile.profile_url!,
+            {
+              lastSeenAt: "2024-09-01T10:00:00.000Z",
+              searches: ["https://www.linkedin.com/search/results/people/"],
+            },
+          ],
+        ])
+      }
+      compareIndices={[]}
+      onToggleCompare={vi.fn()}
+      selectedIndex={0}
+      onSelect={onSelect}
+    />
+  );
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+describe("ProfileTable", () => {
+  it("opens a profile from the name button", () => {
+    const onSelect = vi.fn();
+    renderTable(onSelect);
+    const button = screen.getByRole("button", { name: "Daniel Okafor" });
+    button.focus();
+    expect(document.activeElement).toBe(button);
+    fireEvent.click(button);
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect(onSelect).toHaveBeenCalledWith(1);
+  });
+
+  it("marks the selected profile", () => {
+    renderTable();
+    expect(
+      screen
+        .getByRole("button", { name: "Priya Raman" })
+        .getAttribute("aria-current")
+    ).toBe("true");
+  });
+
+  it("spells out the badge details for screen readers", () => {
+    renderTable();
+    expect(screen.getByText(/, missing: Location, Education/)).toBeTruthy();
+    expect(screen.getByText(/, previously found by:/)).toBeTruthy();
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = renderTable();
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
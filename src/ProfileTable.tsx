@@ -0,0 +1,321 @@
+import { useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  HandThumbDownIcon,
+} from "@heroicons/react/24/outline";
+import { StarIcon } from "@heroicons/react/24/solid";
+import { Profile } from "./types";
+import { TriageMap, TriageStatus, getTriage } from "./triage";
+import { PriorSightings, getPriorSighting } from "./identity";
+import SeenBeforeBadge from "./SeenBeforeBadge";
+import PartialDataBadge from "./PartialDataBadge";
+import { getCareerSummary, monthsToYears } from "./timeline";
+
+type StatusFilter = "all" | TriageStatus | "untriaged";
+
+type SortKey =
+  | "name"
+  | "title"
+  | "location"
+  | "company"
+  | "experience"
+  | "score";
+
+interface Column {
+  key: SortKey;
+  label: string;
+  value: (profile: Profile) => string | number | undefined;
+}
+
+// Undefined when no role has a parseable date range
+const experienceYears = (profile: Profile) => {
+  const { totalMonths } = getCareerSummary(profile);
+  return totalMonths ? monthsToYears(totalMonths) : undefined;
+};
+
+const COLUMNS: Column[] = [
+  { key: "name", label: "Name", value: (p) => p.name },
+  { key: "title", label: "Title", value: (p) => p.title },
+  { key: "location", label: "Location", value: (p) => p.location },
+  {
+    key: "company",
+    label: "Current Company",
+    value: (p) => p.experiences?.[0]?.company,
+  },
+  {
+    key: "experience",
+    label: "Experience (yrs)",
+    value: experienceYears,
+  },
+  {
+    key: "score",
+    label: "Overall Score",
+    value: (p) => p.evaluation?.overall_score,
+  },
+];
+
+// Missing values always sort last, whatever the direction
+const compareValues = (
+  a: string | number | undefined,
+  b: string | number | undefined,
+  direction: 1 | -1
+) => {
+  const aMissing = a === undefined || a === "";
+  const bMissing = b === undefined || b === "";
+  if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+  if (typeof a === "number" && typeof b === "number") {
+    return (a - b) * direction;
+  }
+  return String(a).localeCompare(String(b)) * direction;
+};
+
+function TriageSummary({
+  status,
+  tags,
+}: {
+  status?: TriageStatus;
+  tags?: string[];
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {status === "shortlisted" && (
+        <StarIcon
+          className="h-4 w-4 text-yellow-400"
+          aria-label="Shortlisted"
+        />
+      )}
+      {status === "rejected" && (
+        <HandThumbDownIcon
+          className="h-4 w-4 text-red-500"
+          aria-label="Rejected"
+        />
+      )}
+      {(tags || []).map((tag) => (
+        <span
+          key={tag}
+          className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800"
+        >
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface ProfileTableProps {
+  profiles: Profile[];
+  // Indices of the profiles passing the filter rules, in `profiles` order
+  visibleIndices: number[];
+  triage: TriageMap;
+  priorSightings: PriorSightings;
+  compareIndices: number[];
+  onToggleCompare: (index: number) => void;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Sortable, filterable list of all loaded profiles. Rows keep their index in
+// `profiles` so a click can open the matching profile in the carousel.
+function ProfileTable({
+  profiles,
+  visibleIndices,
+  triage,
+  priorSightings,
+  compareIndices,
+  onToggleCompare,
+  selectedIndex,
+  onSelect,
+}: ProfileTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [filter, setFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+
+  const rows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const indexed = visibleIndices
+      .map((index) => ({ profile: profiles[index], index }))
+      .filter(({ profile }) => {
+        const { status, tags, notes } = getTriage(triage, profile);
+        if (
+          statusFilter === "untriaged"
+            ? status
+            : statusFilter !== "all" && status !== statusFilter
+        ) {
+          return false;
+        }
+        return (
+          !query ||
+          COLUMNS.some((column) =>
+            String(column.value(profile) ?? "")
+              .toLowerCase()
+              .includes(query)
+          ) ||
+          (tags || []).some((tag) => tag.includes(query)) ||
+          (notes || "").toLowerCase().includes(query)
+        );
+      });
+    const column = COLUMNS.find((c) => c.key === sortKey);
+    if (column) {
+      indexed.sort((a, b) =>
+        compareValues(
+          column.value(a.profile),
+          column.value(b.profile),
+          direction
+        )
+      );
+    }
+    return indexed;
+  }, [
+    profiles,
+    visibleIndices,
+    triage,
+    filter,
+    statusFilter,
+    sortKey,
+    direction,
+  ]);
+
+  // Clicking the active column flips the direction, another column sorts
+  // ascending (scores and experience start with the highest)
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDirection((prev) => (prev === 1 ? -1 : 1));
+    } else {
+      setSortKey(key);
+      setDirection(key === "score" || key === "experience" ? -1 : 1);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 flex space-x-2">
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          placeholder="Filter by name, title, location, company, score, tag or note..."
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm border-gray-300 rounded-md"
+          aria-label="Filter by status"
+        >
+          <option value="all">All</option>
+          <option value="shortlisted">Shortlisted</option>
+          <option value="rejected">Rejected</option>
+          <option value="untriaged">Not triaged</option>
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-3">
+                <span className="sr-only">Compare</span>
+              </th>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={
+                    column.key === sortKey
+                      ? direction === 1
+                        ? "ascending"
+                        : "descending"
+                      : "none"
+                  }
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="flex items-center space-x-1 uppercase hover:text-gray-700"
+                  >
+                    <span>{column.label}</span>
+                    {column.key === sortKey &&
+                      (direction === 1 ? (
+                        <ChevronUpIcon className="h-4 w-4" aria-hidden="true" />
+                      ) : (
+                        <ChevronDownIcon
+                          className="h-4 w-4"
+                          aria-hidden="true"
+                        />
+                      ))}
+                  </button>
+                </th>
+              ))}
+              <th
+                scope="col"
+                className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+              >
+                Triage
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(({ profile, index }) => (
+              <tr
+                key={index}
+                onClick={() => onSelect(index)}
+                className={`cursor-pointer hover:bg-gray-50 ${
+                  index === selectedIndex ? "bg-blue-50" : ""
+                }`}
+              >
+                <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    type="checkbox"
+                    checked={compareIndices.includes(index)}
+                    onChange={() => onToggleCompare(index)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    aria-label={`Compare ${profile.name || "profile"}`}
+                  />
+                </td>
+                {COLUMNS.map((column) => (
+                  <td
+                    key={column.key}
+                    className="px-4 py-3 text-sm text-gray-700"
+                  >
+                    {/* The row opens on click; the name button does the
+                        same from the keyboard */}
+                    {column.key === "name" ? (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onSelect(index);
+                        }}
+                        aria-current={index === selectedIndex || undefined}
+                        className="text-left font-medium text-blue-700 hover:underline rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                      >
+                        {profile.name || "Unnamed profile"}
+                      </button>
+                    ) : (
+                      column.value(profile) ?? ""
+                    )}
+                  </td>
+                ))}
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  <TriageSummary {...getTriage(triage, profile)} />
+                  <SeenBeforeBadge
+                    sighting={getPriorSighting(priorSightings, profile)}
+                  />
+                  <PartialDataBadge profile={profile} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">
+            No profiles match the filter
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProfileTable;
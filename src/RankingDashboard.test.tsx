@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import RankingDashboard from "./RankingDashboard";
+import { axeViolations } from "./test/axe";
+import { fullProfile, secondProfile } from "./fixtures";
+
+afterEach(cleanup);
+
+describe("RankingDashboard", () => {
+  it("opens a profile from its name button", () => {
+    const onSelect = vi.fn();
+    render(
+      <RankingDashboard
+        profiles={[secondProfile, fullProfile]}
+        onSelect={onSelect}
+      />
+    );
+    fireEvent.click(screen.getByRole("button", { name: /Priya Raman/ }));
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect(onSelect).toHaveBeenCalledWith(1);
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = render(
+      <RankingDashboard
+        profiles={[fullProfile, secondProfile]}
+        onSelect={vi.fn()}
+      />
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
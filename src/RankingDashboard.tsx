@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from "react";
+import { StarIcon } from "@heroicons/react/24/solid";
+import { Profile } from "./types";
+import {
+  RankingSettings,
+  SCORE_CATEGORIES,
+  ScoreCategory,
+  getCategoryScore,
+  inferScoreScale,
+  loadRankingSettings,
+  rankProfiles,
+  saveRankingSettings,
+} from "./scoring";
+
+const formatScore = (score: number | undefined) =>
+  score === undefined ? "–" : Number(score.toFixed(1)).toString();
+
+interface ScoreBarProps {
+  label: string;
+  score: number | undefined;
+  scale: number;
+}
+
+function ScoreBar({ label, score, scale }: ScoreBarProps) {
+  const percent =
+    score === undefined ? 0 : Math.min(100, (score / scale) * 100);
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span>{formatScore(score)}</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5">
+        <div
+          className={`h-1.5 rounded-full ${
+            percent >= 70
+              ? "bg-green-500"
+              : percent >= 40
+              ? "bg-yellow-500"
+              : "bg-red-500"
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface RankingDashboardProps {
+  profiles: Profile[];
+  onSelect: (index: number) => void;
+}
+
+// Ranks all loaded profiles by overall score or by a user-weighted average of
+// the evaluation sub-scores, highlighting candidates above a threshold
+function RankingDashboard({ profiles, onSelect }: RankingDashboardProps) {
+  const [settings, setSettings] =
+    useState<RankingSettings>(loadRankingSettings);
+
+  useEffect(() => {
+    saveRankingSettings(settings);
+  }, [settings]);
+
+  const scale = useMemo(() => inferScoreScale(profiles), [profiles]);
+  const ranked = useMemo(
+    () => rankProfiles(profiles, settings),
+    [profiles, settings]
+  );
+  const aboveThreshold = ranked.filter(
+    ({ score }) => score !== undefined && score >= settings.threshold
+  ).length;
+
+  const setWeight = (key: ScoreCategory, value: number) =>
+    setSettings((prev) => ({
+      ...prev,
+      weights: { ...prev.weights, [key]: value },
+    }));
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      {/* Settings */}
+      <div className="px-4 py-4 border-b border-gray-200 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.useCustomWeights}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  useCustomWeights: e.target.checked,
+                }))
+              }
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="ml-2">Rank by custom weights</span>
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <span className="mr-2">Highlight scores ≥</span>
+            <input
+              type="number"
+              value={settings.threshold}
+              min={0}
+              max={scale}
+              step={scale / 20}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  threshold: Number(e.target.value),
+                }))
+              }
+              className="w-20 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm border-gray-300 rounded-md"
+            />
+          </label>
+          <span className="text-sm text-gray-500">
+            {aboveThreshold} of {profiles.length} above threshold
+          </span>
+        </div>
+        {settings.useCustomWeights && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {SCORE_CATEGORIES.map(({ key, label }) => (
+              <label key={key} className="block text-sm text-gray-700">
+                <span className="flex justify-between">
+                  <span>{label}</span>
+                  <span className="text-gray-500">
+                    weight {settings.weights[key]}
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={5}
+                  step={0.5}
+                  value={settings.weights[key]}
+                  onChange={(e) => setWeight(key, Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Ranking */}
+      <ol className="divide-y divide-gray-200">
+        {ranked.map(({ profile, index, score, rank }) => {
+          const highlighted =
+            score !== undefined && score >= settings.threshold;
+          return (
+            <li
+              key={index}
+              onClick={() => onSelect(index)}
+              className={`px-4 py-3 cursor-pointer hover:bg-gray-50 ${
+                highlighted ? "bg-green-50" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {/* The item opens on click; the name button does the
+                        same from the keyboard */}
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSelect(index);
+                      }}
+                      className="text-left hover:underline rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    >
+                      <span className="text-gray-400 mr-2">#{rank}</span>
+                      {profile.name || "Unnamed profile"}
+                    </button>
+                    {highlighted && (
+                      <StarIcon
+                        className="inline h-4 w-4 ml-1 text-yellow-400"
+                        aria-label="Above threshold"
+                      />
+                    )}
+                  </p>
+                  {profile.title && (
+                    <p className="text-sm text-gray-600 truncate">
+                      {profile.title}
+                    </p>
+                  )}
+                </div>
+                <span
+                  className={`ml-4 px-2 py-1 text-sm font-semibold rounded-full ${
+                    highlighted
+                      ? "bg-green-100 text-green-800"
+                      : "bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  {formatScore(score)}
+                </span>
+              </div>
+              {profile.evaluation && (
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {SCORE_CATEGORIES.map(({ key, label }) => (
+                    <ScoreBar
+                      key={key}
+                      label={label}
+                      score={getCategoryScore(profile, key)}
+                      scale={scale}
+                    />
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+export default RankingDashboard;
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import RunHistory from "./RunHistory";
+import { RunSummary } from "./db";
+import { axeViolations } from "./test/axe";
+
+const runs: RunSummary[] = [
+  {
+    id: 2,
+    searchUrl: "https://www.linkedin.com/search/results/people/?keywords=go",
+    createdAt: "2024-10-02T09:30:00.000Z",
+    limit: 10,
+    profileCount: 7,
+  },
+  {
+    id: 1,
+    searchUrl: "",
+    createdAt: "2024-10-01T16:00:00.000Z",
+    limit: 0,
+    importedFrom: "candidates.json",
+    profileCount: 1,
+  },
+];
+
+afterEach(cleanup);
+
+describe("RunHistory", () => {
+  it("names each delete button after its run", () => {
+    const onDelete = vi.fn();
+    render(
+      <RunHistory
+        runs={runs}
+        activeRunId={2}
+        onOpen={vi.fn()}
+        onDelete={onDelete}
+      />
+    );
+    const createdAt = new Date(runs[1].createdAt).toLocaleString();
+    fireEvent.click(
+      screen.getByRole("button", { name: `Delete run of ${createdAt}` })
+    );
+    expect(onDelete).toHaveBeenCalledWith(1);
+  });
+
+  it("has no axe violations", async () => {
+    const { container } = render(
+      <RunHistory
+        runs={runs}
+        activeRunId={2}
+        onOpen={vi.fn()}
+        onDelete={vi.fn()}
+      />
+    );
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
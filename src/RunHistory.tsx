@@ -0,0 +1,80 @@
+import { ClockIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { RunSummary } from "./db";
+
+interface RunHistoryProps {
+  runs: RunSummary[];
+  activeRunId: number | null;
+  onOpen: (id: number) => void;
+  onDelete: (id: number) => void;
+}
+
+// Lists past scrape runs stored in IndexedDB, newest first
+function RunHistory({ runs, activeRunId, onOpen, onDelete }: RunHistoryProps) {
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="mt-4 bg-white shadow rounded-lg">
+      <div className="px-4 py-3 sm:px-6 border-b border-gray-200 flex items-center">
+        <ClockIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
+        <h2 className="ml-2 text-sm font-medium text-gray-700">
+          Search History
+        </h2>
+      </div>
+      <ul className="divide-y divide-gray-200 max-h-72 overflow-y-auto">
+        {runs.map((run) => (
+          <li
+            key={run.id}
+            className={`px-4 py-3 sm:px-6 flex items-center justify-between ${
+              run.id === activeRunId ? "bg-blue-50" : ""
+            }`}
+          >
+            <div className="min-w-0 flex-1">
+              <p
+                className="text-sm text-gray-900 truncate"
+                title={
+                  run.searches
+                    ? run.searches.map((search) => search.url).join("\n")
+                    : run.searchUrl
+                }
+              >
+                {run.importedFrom
+                  ? `Imported from ${run.importedFrom}`
+                  : run.searchUrl}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(run.createdAt).toLocaleString()} ·{" "}
+                {run.importedFrom
+                  ? "import"
+                  : run.searches && run.searches.length > 1
+                  ? `batch of ${run.searches.length} searches`
+                  : `limit ${run.limit}`}{" "}
+                · {run.profileCount} profile
+                {run.profileCount === 1 ? "" : "s"}
+              </p>
+            </div>
+            <div className="ml-4 flex-shrink-0 flex items-center space-x-2">
+              <button
+                onClick={() => onOpen(run.id)}
+                className="px-3 py-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => onDelete(run.id)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Delete run"
+                aria-label={`Delete run of ${new Date(
+                  run.createdAt
+                ).toLocaleString()}`}
+              >
+                <TrashIcon className="h-5 w-5" aria-hidden="true" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default RunHistory;
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, screen, waitFor } from "@testing-library/react";
+import { Profile } from "./types";
+import ScrapeForm from "./ScrapeForm";
+import { runScrape } from "./api";
+import { saveRun } from "./db";
+import { axeViolations } from "./test/axe";
+import { ResultsProbe, renderWithResults } from "./test/render";
+import { fullProfile, secondProfile } from "./fixtures";
+
+vi.mock("./api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./api")>()),
+  runScrape: vi.fn(),
+}));
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getAllRuns: vi.fn().mockResolvedValue([]),
+  getRun: vi.fn().mockResolvedValue(undefined),
+  saveRun: vi.fn(async (run) => ({ ...run, id: 1 })),
+}));
+
+const SEARCH_URL =
+  "https://www.linkedin.com/search/results/people/?keywords=go";
+const COOKIE = "AQEDAR".padEnd(120, "x");
+
+const fillForm = (cookie = COOKIE) => {
+  fireEvent.change(screen.getByLabelText("LinkedIn Search URL *"), {
+    target: { value: SEARCH_URL },
+  });
+  fireEvent.change(screen.getByLabelText("LinkedIn Session Cookie *"), {
+    target: { value: cookie },
+  });
+};
+
+beforeEach(() => {
+  // Saving the run moves the address bar to its deep link
+  window.history.replaceState(null, "", "/");
+  vi.mocked(runScrape).mockReset();
+  vi.mocked(saveRun).mockClear();
+});
+
+afterEach(cleanup);
+
+describe("ScrapeForm", () => {
+  it("scrapes the search into the results store and saves the run", async () => {
+    vi.mocked(runScrape).mockImplementation(async (_request, options) => {
+      const profiles = [fullProfile, secondProfile];
+      options?.onProgress?.({ total: 2, completed: 2, profiles });
+      return profiles;
+    });
+    renderWithResults(
+      <>
+        <ScrapeForm />
+        <ResultsProbe />
+      </>
+    );
+
+    fillForm();
+    fireEvent.click(screen.getByRole("button", { name: "Start Export" }));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("active-run").textContent).toBe("1")
+    );
+    expect(runScrape).toHaveBeenCalledWith(
+      { url: SEARCH_URL, session_cookie: COOKIE, limit: 1 },
+      expect.anything()
+    );
+    expect(screen.getByTestId("profile-count").textContent).toBe("2");
+    expect(saveRun).toHaveBeenCalledWith(
+      expect.objectContaining({ searchUrl: SEARCH_URL, limit: 1 })
+    );
+  });
+
+  it("explains that a server without scrape jobs can't cancel", async () => {
+    let finish: (profiles: Profile[]) => void = () => {};
+    vi.mocked(runScrape).mockImplementation((_request, options) => {
+      options?.onLegacyFallback?.(1);
+      return new Promise((resolve) => (finish = resolve));
+    });
+    renderWithResults(<ScrapeForm />);
+
+    fillForm();
+    fireEvent.click(screen.getByRole("button", { name: "Start Export" }));
+
+    expect(await screen.findByText(/can't run scrape jobs/)).toBeTruthy();
+    expect(
+      (screen.getByRole("button", { name: "Cancel" }) as HTMLButtonElement)
+        .disabled
+    ).toBe(true);
+    finish([fullProfile]);
+    await waitFor(() =>
+      expect(screen.queryByRole("button", { name: "Cancel" })).toBeNull()
+    );
+  });
+
+  it("does not scrape with an invalid session cookie", () => {
+    renderWithResults(<ScrapeForm />);
+
+    fillForm("too-short");
+    fireEvent.click(screen.getByRole("button", { name: "Start Export" }));
+
+    expect(runScrape).not.toHaveBeenCalled();
+  });
+
+  it("parses the batch list and flags invalid lines", () => {
+    renderWithResults(<ScrapeForm />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Batch" }));
+    fireEvent.change(screen.getByRole("textbox", { name: /search urls/i }), {
+      target: { value: `${SEARCH_URL}\t5\nnot a url` },
+    });
+
+    expect(screen.getByText(/Line 2/)).toBeTruthy();
+  });
+
+  it("has no axe violations in either mode", async () => {
+    const { container } = renderWithResults(<ScrapeForm />);
+    expect(await axeViolations(container)).toEqual([]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Batch" }));
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,423 @@
+import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { InformationCircleIcon } from "@heroicons/react/24/outline";
+import { Profile } from "./types";
+import {
+  runScrape,
+  LEGACY_MAX_PROFILES,
+  ApiError,
+  CancelledError,
+  SchemaError,
+  ScrapeProgress,
+} from "./api";
+import { dedupeProfiles } from "./identity";
+import SessionCookieField from "./SessionCookieField";
+import BatchInput from "./BatchInput";
+import BatchStatus from "./BatchStatus";
+import {
+  BatchEntry,
+  BatchEntryState,
+  parseBatchInput,
+  withSource,
+} from "./batch";
+import {
+  normalizeSessionCookie,
+  takeSessionCookieFromUrl,
+  validateSessionCookie,
+} from "./credentials";
+import { useResults } from "./store";
+
+const MAX_PROFILES = 100;
+
+// Demo values for the mock backend (VITE_MOCK_API=true, see mockApi.ts),
+// which needs no real search or cookie. The cookie passes
+// validateSessionCookie.
+const MOCK_API = import.meta.env.VITE_MOCK_API === "true";
+const MOCK_SEARCH_URL =
+  "https://www.linkedin.com/search/results/people/?keywords=software%20engineer";
+const MOCK_SESSION_COOKIE =
+  "AQEDAR2mockDemoCookie0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
+
+// Logs a failed scrape and returns the message to show the user
+const describeScrapeError = (error: unknown) => {
+  if (error instanceof SchemaError) {
+    console.error(error.message, error.issues);
+  } else {
+    console.error(error);
+  }
+  return error instanceof ApiError
+    ? error.message
+    : "Failed to scrape profiles";
+};
+
+// Search URL(s), session cookie and limit, plus the scrape itself: runs the
+// searches one after another and streams the profiles into the results store
+function ScrapeForm() {
+  const { state, dispatch, saveResults } = useResults();
+  const [linkedinUrl, setLinkedinUrl] = useState(
+    MOCK_API ? MOCK_SEARCH_URL : ""
+  );
+  const [sessionCookie, setSessionCookie] = useState(
+    MOCK_API ? MOCK_SESSION_COOKIE : ""
+  );
+  const [maxProfiles, setMaxProfiles] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<ScrapeProgress | null>(null);
+  // The server turned out to have no jobs endpoint, see runScrape
+  const [isLegacyServer, setIsLegacyServer] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [searchMode, setSearchMode] = useState<"single" | "batch">("single");
+  const [batchText, setBatchText] = useState("");
+  const [batchEntries, setBatchEntries] = useState<BatchEntry[]>([]);
+  const [batchStates, setBatchStates] = useState<BatchEntryState[]>([]);
+  const batchParsed = useMemo(
+    () => parseBatchInput(batchText, maxProfiles, MAX_PROFILES),
+    [batchText, maxProfiles]
+  );
+
+  // Auto-fill form fields if URL parameters are available. The session
+  // cookie is stripped from the address bar as soon as it has been read.
+  useEffect(() => {
+    const searchParams = new URLSearchParams(window.location.search);
+    const urlParam = searchParams.get("url");
+    const cookieParam = takeSessionCookieFromUrl();
+    if (urlParam) {
+      setLinkedinUrl(urlParam);
+    }
+    if (cookieParam) {
+      setSessionCookie(cookieParam);
+    }
+  }, []);
+
+  // Fill in the searches of a run opened from the history
+  useEffect(() => {
+    const run = state.openedRun;
+    if (!run) return;
+    if (run.searches) {
+      setSearchMode("batch");
+      setBatchText(
+        run.searches.map((search) => `${search.url},${search.limit}`).join("\n")
+      );
+    } else if (!run.importedFrom) {
+      setSearchMode("single");
+      setLinkedinUrl(run.searchUrl);
+      setMaxProfiles(run.limit);
+    }
+  }, [state.openedRun]);
+
+  // Abort any running scrape when the page goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const setBatchState = (index: number, entryState: BatchEntryState) =>
+    setBatchStates((prev) =>
+      prev.map((current, i) => (i === index ? entryState : current))
+    );
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const entries =
+      searchMode === "batch"
+        ? batchParsed.entries
+        : [{ url: linkedinUrl, limit: maxProfiles }];
+    if (!sessionCookie || (searchMode === "single" && !linkedinUrl)) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+    if (searchMode === "batch") {
+      if (batchParsed.errors.length > 0) {
+        toast.error("Please fix the invalid lines in the URL list");
+        return;
+      }
+      if (entries.length === 0) {
+        toast.error("Please add at least one search URL");
+        return;
+      }
+    }
+    const cookieError = validateSessionCookie(sessionCookie);
+    if (cookieError) {
+      toast.error(cookieError);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    dispatch({ type: "startScrape" });
+    setProgress(null);
+    setIsLegacyServer(false);
+    setBatchEntries(entries);
+    setBatchStates(entries.map(() => ({ status: "pending" })));
+    const createdAt = new Date().toISOString();
+    let scraped: Profile[] = [];
+    let failures = 0;
+
+    // Searches run one after another; profiles of all of them are merged
+    // into one result set, each tagged with the search(es) it came from
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      if (controller.signal.aborted) {
+        setBatchState(index, { status: "cancelled" });
+        continue;
+      }
+      const previous = scraped;
+      const scrapedAt = new Date().toISOString();
+      setBatchState(index, { status: "running", completed: 0, total: 0 });
+      try {
+        const result = await runScrape(
+          {
+            url: entry.url,
+            session_cookie: normalizeSessionCookie(sessionCookie),
+            limit: entry.limit,
+          },
+          {
+            signal: controller.signal,
+            onLegacyFallback: () => setIsLegacyServer(true),
+            // Show profiles in the carousel as soon as they arrive
+            onProgress: (update) => {
+              scraped = dedupeProfiles([
+                ...previous,
+                ...withSource(update.profiles, entry.url, scrapedAt),
+              ]);
+              setProgress(update);
+              dispatch({ type: "setProfiles", profiles: scraped });
+              setBatchState(index, {
+                status: "running",
+                completed: update.completed,
+                total: update.total,
+              });
+            },
+          }
+        );
+        scraped = dedupeProfiles([
+          ...previous,
+          ...withSource(result, entry.url, scrapedAt),
+        ]);
+        dispatch({ type: "setProfiles", profiles: scraped });
+        setBatchState(index, { status: "done", count: result.length });
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          setBatchState(index, { status: "cancelled" });
+          continue;
+        }
+        failures++;
+        const message = describeScrapeError(error);
+        setBatchState(index, { status: "failed", error: message });
+        if (entries.length === 1) toast.error(message);
+      }
+    }
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+    if (controller.signal.aborted) {
+      toast("Scrape cancelled");
+    } else if (failures === 0) {
+      toast.success("Profiles scraped successfully!");
+    } else if (entries.length > 1) {
+      toast.error(`${failures} of ${entries.length} searches failed`);
+    }
+
+    // Keep whatever was scraped, including partial results of a cancelled run
+    if (scraped.length > 0) {
+      await saveResults({
+        searchUrl: entries[0].url,
+        createdAt,
+        limit: entries[0].limit,
+        profiles: scraped,
+        searches: entries.length > 1 ? entries : undefined,
+      });
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Search Mode */}
+          <div className="inline-flex rounded-md shadow-sm">
+            {(["single", "batch"] as const).map((mode, index) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setSearchMode(mode)}
+                disabled={isRunning}
+                aria-pressed={searchMode === mode}
+                className={`px-3 py-1 text-sm border border-gray-300 ${
+                  index === 0 ? "rounded-l-md" : "border-l-0 rounded-r-md"
+                } ${
+                  searchMode === mode
+                    ? "bg-blue-600 text-white border-blue-600"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {mode === "single" ? "Single search" : "Batch"}
+              </button>
+            ))}
+          </div>
+
+          {/* LinkedIn Search URL(s) */}
+          {searchMode === "single" ? (
+            <div>
+              <label
+                htmlFor="linkedinUrl"
+                className="block text-sm font-medium text-gray-700"
+              >
+                LinkedIn Search URL *
+              </label>
+              <div className="mt-1">
+                <input
+                  type="url"
+                  id="linkedinUrl"
+                  value={linkedinUrl}
+                  onChange={(e) => setLinkedinUrl(e.target.value)}
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  placeholder="https://www.linkedin.com/search/results/people/..."
+                  required
+                />
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Paste the full LinkedIn search URL here
+              </p>
+            </div>
+          ) : (
+            <BatchInput
+              value={batchText}
+              onChange={setBatchText}
+              parsed={batchParsed}
+              defaultLimit={maxProfiles}
+            />
+          )}
+
+          {/* Session Cookie */}
+          <SessionCookieField
+            value={sessionCookie}
+            onChange={setSessionCookie}
+          />
+
+          {/* Max Profiles */}
+          <div>
+            <label
+              htmlFor="maxProfiles"
+              className="block text-sm font-medium text-gray-700"
+            >
+              {searchMode === "batch"
+                ? "Default Profiles per Search"
+                : "Maximum Number of Profiles"}
+            </label>
+            <div className="mt-1">
+              <input
+                type="number"
+                id="maxProfiles"
+                value={maxProfiles}
+                onChange={(e) => setMaxProfiles(Number(e.target.value))}
+                min="1"
+                max={MAX_PROFILES}
+                className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              />
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              Number of profiles to extract (maximum {MAX_PROFILES}, or{" "}
+              {LEGACY_MAX_PROFILES} on servers without scrape jobs)
+            </p>
+          </div>
+
+          {/* Info Box */}
+          <div className="rounded-md bg-blue-50 p-4">
+            <div className="flex">
+              <div className="flex-shrink-0">
+                <InformationCircleIcon
+                  className="h-5 w-5 text-blue-400"
+                  aria-hidden="true"
+                />
+              </div>
+              <div className="ml-3 flex-1 md:flex md:justify-between">
+                {MOCK_API ? (
+                  <p className="text-sm text-blue-700">
+                    Mock API: demo profiles are served in the browser and
+                    nothing is sent to LinkedIn. Add{" "}
+                    <code>&amp;mock=error</code>, <code>http500</code>,{" "}
+                    <code>malformed</code>, <code>slow</code> or{" "}
+                    <code>legacy</code> to the search URL to try the other
+                    server responses.
+                  </p>
+                ) : (
+                  <p className="text-sm text-blue-700">
+                    This will scrape LinkedIn profiles from the provided search
+                    URL and display them below.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Submit Button */}
+          <div>
+            <button
+              type="submit"
+              disabled={isRunning}
+              className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white
+                    ${
+                      isRunning
+                        ? "bg-gray-400 cursor-not-allowed"
+                        : "bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    }`}
+            >
+              {isRunning ? "Processing..." : "Start Export"}
+            </button>
+          </div>
+
+          {/* Progress */}
+          {isRunning && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>
+                  {progress && progress.total > 0
+                    ? `Scraped ${progress.completed} of ${progress.total} profiles`
+                    : "Waiting for the scraper to start..."}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={isLegacyServer}
+                  className="text-red-600 hover:text-red-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  Cancel
+                </button>
+              </div>
+              {isLegacyServer && (
+                <p className="text-sm text-amber-700">
+                  This server can't run scrape jobs, so each search scrapes at
+                  most {LEGACY_MAX_PROFILES} profiles in a single request. It
+                  can't be cancelled: the server would keep scraping.
+                </p>
+              )}
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{
+                    width: `${
+                      progress && progress.total > 0
+                        ? (progress.completed / progress.total) * 100
+                        : 0
+                    }%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Batch Status */}
+          {batchEntries.length > 1 && (
+            <BatchStatus entries={batchEntries} states={batchStates} />
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default ScrapeForm;
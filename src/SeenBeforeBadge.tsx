@@ -0,0 +1,29 @@
+import { EyeIcon } from "@heroicons/react/24/outline";
+import { PriorSighting } from "./identity";
+
+// Marks a profile that already showed up in an earlier run
+function SeenBeforeBadge({ sighting }: { sighting?: PriorSighting }) {
+  if (!sighting) return null;
+  const date = new Date(sighting.lastSeenAt).toLocaleDateString();
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800"
+      title={
+        sighting.searches.length > 0
+          ? `Previously found by:\n${sighting.searches.join("\n")}`
+          : undefined
+      }
+    >
+      <EyeIcon className="h-3 w-3 mr-1" aria-hidden="true" />
+      Seen before · {date}
+      {/* The title is only shown on hover */}
+      {sighting.searches.length > 0 && (
+        <span className="sr-only">
+          , previously found by: {sighting.searches.join(", ")}
+        </span>
+      )}
+    </span>
+  );
+}
+
+export default SeenBeforeBadge;
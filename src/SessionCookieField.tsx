@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { EyeIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import {
+  clearStoredSessionCookie,
+  hasStoredSessionCookie,
+  isEncryptionAvailable,
+  loadSessionCookie,
+  storeSessionCookie,
+  validateSessionCookie,
+} from "./credentials";
+
+interface SessionCookieFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Masked li_at input with reveal toggle, format check, optional encrypted
+// "remember" behind a passphrase and one-click clearing
+function SessionCookieField({ value, onChange }: SessionCookieFieldProps) {
+  const [revealed, setRevealed] = useState(false);
+  const [touched, setTouched] = useState(false);
+  const [hasStored, setHasStored] = useState(hasStoredSessionCookie());
+  const [passphrase, setPassphrase] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const error = touched && value ? validateSessionCookie(value) : null;
+  const canEncrypt = isEncryptionAvailable();
+
+  const handleRemember = async () => {
+    const problem = validateSessionCookie(value);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    if (passphrase.length < 8) {
+      toast.error("Passphrase must be at least 8 characters");
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await storeSessionCookie(value, passphrase);
+      setHasStored(true);
+      setPassphrase("");
+      toast.success("Session cookie saved (encrypted)");
+    } catch (err) {
+      toast.error("Failed to save session cookie");
+      console.error(err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    try {
+      onChange(await loadSessionCookie(passphrase));
+      setPassphrase("");
+      toast.success("Session cookie unlocked");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to unlock");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClear = () => {
+    clearStoredSessionCookie();
+    setHasStored(false);
+    setPassphrase("");
+    setTouched(false);
+    onChange("");
+    toast.success("Credentials cleared");
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label
+          htmlFor="sessionCookie"
+          className="block text-sm font-medium text-gray-700"
+        >
+          LinkedIn Session Cookie *
+        </label>
+        {(value || hasStored) && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm text-red-600 hover:text-red-800"
+          >
+            Clear credentials
+          </button>
+        )}
+      </div>
+      <div className="mt-1 relative">
+        <input
+          type={revealed ? "text" : "password"}
+          id="sessionCookie"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={() => setTouched(true)}
+          autoComplete="off"
+          spellCheck={false}
+          className={`shadow-sm block w-full pr-10 sm:text-sm rounded-md font-mono ${
+            error
+              ? "border-red-300 focus:ring-red-500 focus:border-red-500"
+              : "border-gray-300 focus:ring-blue-500 focus:border-blue-500"
+          }`}
+          placeholder="Paste your li_at session cookie here..."
+          aria-invalid={!!error}
+          aria-describedby="sessionCookieHelp"
+          required
+        />
+        <button
+          type="button"
+          onClick={() => setRevealed((prev) => !prev)}
+          className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-400 hover:text-gray-600"
+          aria-label={revealed ? "Hide session cookie" : "Show session cookie"}
+        >
+          {revealed ? (
+            <EyeSlashIcon className="h-5 w-5" aria-hidden="true" />
+          ) : (
+            <EyeIcon className="h-5 w-5" aria-hidden="true" />
+          )}
+        </button>
+      </div>
+      <p
+        id="sessionCookieHelp"
+        className={`mt-1 text-sm ${error ? "text-red-600" : "text-gray-500"}`}
+      >
+        {error || "Your LinkedIn session cookie is required for authentication"}
+      </p>
+
+      {/* Encrypted Remember / Unlock */}
+      {canEncrypt && (hasStored ? !value : !!value) && (
+        <div className="mt-2 flex space-x-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete={hasStored ? "current-password" : "new-password"}
+            className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+            placeholder={
+              hasStored
+                ? "Passphrase to unlock the saved cookie"
+                : "Passphrase to remember this cookie (optional)"
+            }
+            aria-label="Passphrase"
+          />
+          <button
+            type="button"
+            onClick={hasStored ? handleUnlock : handleRemember}
+            disabled={isBusy || !passphrase}
+            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 whitespace-nowrap disabled:opacity-50"
+          >
+            {hasStored ? "Unlock" : "Remember"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionCookieField;
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import {
+  HandThumbDownIcon,
+  StarIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
+import { Triage, TriageStatus, normalizeTag } from "./triage";
+
+interface TriageControlsProps {
+  triage: Triage;
+  onChange: (patch: Partial<Triage>) => void;
+}
+
+// Shortlist / reject toggles, tags and notes for the profile in the carousel
+function TriageControls({ triage, onChange }: TriageControlsProps) {
+  const [tagInput, setTagInput] = useState("");
+  const tags = triage.tags || [];
+
+  const toggleStatus = (status: TriageStatus) =>
+    onChange({ status: triage.status === status ? undefined : status });
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !tags.includes(tag)) {
+      onChange({ tags: [...tags, tag] });
+    }
+    setTagInput("");
+  };
+
+  const removeTag = (tag: string) =>
+    onChange({ tags: tags.filter((t) => t !== tag) });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => toggleStatus("shortlisted")}
+          aria-pressed={triage.status === "shortlisted"}
+          className={`flex items-center px-3 py-1 text-sm rounded-md border ${
+            triage.status === "shortlisted"
+              ? "bg-yellow-50 border-yellow-300 text-yellow-800"
+              : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          {triage.status === "shortlisted" ? (
+            <StarSolidIcon
+              className="h-4 w-4 mr-1 text-yellow-400"
+              aria-hidden="true"
+            />
+          ) : (
+            <StarIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+          )}
+          {triage.status === "shortlisted" ? "Shortlisted" : "Shortlist"}
+        </button>
+        <button
+          type="button"
+          onClick={() => toggleStatus("rejected")}
+          aria-pressed={triage.status === "rejected"}
+          className={`flex items-center px-3 py-1 text-sm rounded-md border ${
+            triage.status === "rejected"
+              ? "bg-red-50 border-red-300 text-red-800"
+              : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          <HandThumbDownIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+          {triage.status === "rejected" ? "Rejected" : "Reject"}
+        </button>
+
+        {/* Tags */}
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-blue-500 hover:text-blue-700"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <XMarkIcon className="h-3 w-3" aria-hidden="true" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          className="w-32 py-0.5 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Add tag..."
+          aria-label="Add tag"
+        />
+      </div>
+      <textarea
+        value={triage.notes || ""}
+        onChange={(e) => onChange({ notes: e.target.value })}
+        rows={2}
+        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+        placeholder="Notes..."
+        aria-label="Notes"
+      />
+    </div>
+  );
+}
+
+export default TriageControls;
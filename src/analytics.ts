@@ -0,0 +1,145 @@
+import * as XLSX from "xlsx";
+import { Profile } from "./types";
+import { getProfileSkills, skillKey } from "./profile";
+import { inferScoreScale } from "./scoring";
+
+// Aggregates over a result set, to judge at a glance whether a search is
+// hitting the intended talent pool
+
+export interface CountEntry {
+  label: string;
+  count: number; // number of profiles, each profile counts once per value
+}
+
+export interface HistogramBucket {
+  label: string;
+  min: number;
+  max: number; // exclusive, except for the last bucket
+  count: number;
+}
+
+export interface ResultAnalytics {
+  profileCount: number;
+  topSkills: CountEntry[];
+  topCompanies: CountEntry[]; // current companies
+  topSchools: CountEntry[];
+  locations: CountEntry[];
+  scoreHistogram: HistogramBucket[];
+  unscored: number;
+}
+
+const TOP_LIMIT = 10;
+const HISTOGRAM_BUCKETS = 10;
+
+const textKey = (value: string) => value.trim().toLowerCase();
+
+// Counts the profiles each value appears in. Values are grouped by `key`
+// and labelled with the first spelling seen.
+const countValues = (
+  valuesPerProfile: (string | undefined)[][],
+  key: (value: string) => string = textKey,
+  limit = TOP_LIMIT
+): CountEntry[] => {
+  const counts = new Map<string, CountEntry>();
+  valuesPerProfile.forEach((values) => {
+    const seen = new Set<string>();
+    values.forEach((value) => {
+      const k = value ? key(value) : "";
+      if (!k || seen.has(k)) return;
+      seen.add(k);
+      const entry = counts.get(k) || { label: value!.trim(), count: 0 };
+      entry.count += 1;
+      counts.set(k, entry);
+    });
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+};
+
+const buildScoreHistogram = (profiles: Profile[]): HistogramBucket[] => {
+  const scale = inferScoreScale(profiles);
+  const width = scale / HISTOGRAM_BUCKETS;
+  const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    label: `${i * width}–${(i + 1) * width}`,
+    min: i * width,
+    max: (i + 1) * width,
+    count: 0,
+  }));
+  profiles.forEach((profile) => {
+    const score = profile.evaluation?.overall_score;
+    if (score === undefined) return;
+    const index = Math.min(
+      Math.max(Math.floor(score / width), 0),
+      HISTOGRAM_BUCKETS - 1
+    );
+    buckets[index].count += 1;
+  });
+  return buckets;
+};
+
+export const buildAnalytics = (profiles: Profile[]): ResultAnalytics => ({
+  profileCount: profiles.length,
+  topSkills: countValues(profiles.map(getProfileSkills), skillKey),
+  topCompanies: countValues(
+    profiles.map((profile) => [profile.experiences?.[0]?.company])
+  ),
+  topSchools: countValues(
+    profiles.map((profile) =>
+      (profile.education || []).map((edu) => edu.institution)
+    )
+  ),
+  locations: countValues(profiles.map((profile) => [profile.location])),
+  scoreHistogram: buildScoreHistogram(profiles),
+  unscored: profiles.filter(
+    (profile) => profile.evaluation?.overall_score === undefined
+  ).length,
+});
+
+// One tidy table for spreadsheets: a row per (section, value)
+export const ANALYTICS_HEADER = ["section", "value", "profiles", "share"];
+
+export const buildAnalyticsRows = (analytics: ResultAnalytics) => {
+  const share = (count: number) =>
+    analytics.profileCount
+      ? Math.round((count / analytics.profileCount) * 1000) / 10
+      : 0;
+  const section = (name: string, entries: CountEntry[]) =>
+    entries.map(({ label, count }) => ({
+      section: name,
+      value: label,
+      profiles: count,
+      share: share(count),
+    }));
+  return [
+    {
+      section: "Profiles",
+      value: "Total",
+      profiles: analytics.profileCount,
+      share: 100,
+    },
+    ...section("Top skills", analytics.topSkills),
+    ...section("Top current companies", analytics.topCompanies),
+    ...section("Top schools", analytics.topSchools),
+    ...section("Locations", analytics.locations),
+    ...section("Overall score", analytics.scoreHistogram),
+    ...section("Overall score", [
+      { label: "No score", count: analytics.unscored },
+    ]),
+  ];
+};
+
+export const exportAnalytics = (
+  profiles: Profile[],
+  fileName = "analytics.xlsx"
+) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(buildAnalyticsRows(buildAnalytics(profiles)), {
+      header: ANALYTICS_HEADER,
+    }),
+    "Summary"
+  );
+  XLSX.writeFile(workbook, fileName);
+};
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LEGACY_MAX_PROFILES, runScrape } from "./api";
+
+const request = {
+  url: "https://www.linkedin.com/search/results/people/?keywords=go",
+  session_cookie: "AQEDAR",
+  limit: 50,
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("runScrape", () => {
+  it("polls the job until it completes", async () => {
+    const profile = { name: "Priya Raman" };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        json({ job_id: "j1", status: "running", total: 1, completed: 0 })
+      )
+      .mockResolvedValueOnce(
+        json({
+          job_id: "j1",
+          status: "completed",
+          total: 1,
+          completed: 1,
+          profiles: [profile],
+        })
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const profiles = await runScrape(request, { pollIntervalMs: 0 });
+    expect(profiles.map((p) => p.name)).toEqual(["Priya Raman"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("caps the limit when falling back to scrape_by_url", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(json({ detail: "Not Found" }, 404))
+      .mockResolvedValueOnce(json({ profile: [{ name: "Priya Raman" }] }));
+    vi.stubGlobal("fetch", fetchMock);
+    const onLegacyFallback = vi.fn();
+
+    const profiles = await runScrape(request, { onLegacyFallback });
+
+    expect(profiles).toHaveLength(1);
+    expect(onLegacyFallback).toHaveBeenCalledWith(LEGACY_MAX_PROFILES);
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toMatch(/\/linkedin\/scrape_by_url$/);
+    expect(JSON.parse(init.body).limit).toBe(LEGACY_MAX_PROFILES);
+  });
+
+  it("keeps a smaller limit on the fallback", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(json({ detail: "Not Found" }, 404))
+      .mockResolvedValueOnce(json({ profile: [] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await runScrape({ ...request, limit: 2 });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).limit).toBe(2);
+  });
+});
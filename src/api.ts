@@ -0,0 +1,377 @@
+import { Profile } from "./types";
+import { normalizeProfiles } from "./normalize";
+
+// Base URL resolution: a value saved from the settings panel wins over the
+// build-time VITE_API_BASE_URL, which wins over the production server
+const DEFAULT_API_BASE_URL = "http://43.205.73.56:8000";
+const API_BASE_URL_STORAGE_KEY = "apiBaseUrl";
+
+const trimSlashes = (url: string) => url.trim().replace(/\/+$/, "");
+
+export const getDefaultApiBaseUrl = () =>
+  trimSlashes(import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL);
+
+export const getApiBaseUrlOverride = () =>
+  localStorage.getItem(API_BASE_URL_STORAGE_KEY) || "";
+
+export const setApiBaseUrlOverride = (url: string) => {
+  if (url.trim()) {
+    localStorage.setItem(API_BASE_URL_STORAGE_KEY, trimSlashes(url));
+  } else {
+    localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+  }
+};
+
+export const getApiBaseUrl = () =>
+  getApiBaseUrlOverride() || getDefaultApiBaseUrl();
+
+// Error types
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The request never reached the server (offline, DNS, CORS, aborted...)
+export class NetworkError extends ApiError {
+  cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  status: number;
+  body: string;
+
+  constructor(status: number, statusText: string, body: string) {
+    super(`Server responded with ${status} ${statusText}`.trim());
+    this.name = "HttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The response body did not match the expected shape
+export class SchemaError extends ApiError {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+// The server handled the request but reported a scrape failure
+export class ScrapeError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+// The request was aborted by the user
+export class CancelledError extends ApiError {
+  constructor(message = "Scrape cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+// scrape_by_url
+
+export interface ScrapeByUrlRequest {
+  url: string;
+  session_cookie: string;
+  limit: number;
+}
+
+export type ScrapeByUrlResponse =
+  | { profile: Profile | Profile[]; error?: undefined }
+  | { error: string; profile?: undefined };
+
+const requestJson = async (
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  payload?: unknown,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  let response: Response;
+  try {
+    // The mock backend answers in the browser, see mockApi.ts. Builds
+    // without VITE_MOCK_API=true get an empty stub instead (vite.config.ts).
+    const send =
+      import.meta.env.VITE_MOCK_API === "true"
+        ? (await import("./mockApi")).mockFetch
+        : fetch;
+    response = await send(`${getApiBaseUrl()}${path}`, {
+      method,
+      headers:
+        payload === undefined
+          ? undefined
+          : {
+              "Content-Type": "application/json",
+            },
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new CancelledError();
+    throw new NetworkError("Could not reach the scraping server", error);
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new HttpError(response.status, response.statusText, body);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    if (signal?.aborted) throw new CancelledError();
+    throw new SchemaError("Server response is not valid JSON");
+  }
+};
+
+// Profiles are normalized rather than rejected, so a missing or malformed
+// field doesn't lose the whole scrape. Items that aren't objects at all
+// can't be profiles though.
+const validateProfiles = (profiles: unknown[], message: string) => {
+  const issues = profiles.flatMap((item, index) =>
+    typeof item === "object" && item !== null && !Array.isArray(item)
+      ? []
+      : [`profile[${index}] must be an object`]
+  );
+  if (issues.length > 0) {
+    throw new SchemaError(message, issues);
+  }
+  return normalizeProfiles(profiles);
+};
+
+export const parseScrapeByUrlResponse = (data: unknown): Profile[] => {
+  if (typeof data !== "object" || data === null) {
+    throw new SchemaError("Server response must be an object");
+  }
+  const { profile, error } = data as Record<string, unknown>;
+  if (error) {
+    throw new ScrapeError(String(error));
+  }
+  if (profile === undefined || profile === null) {
+    throw new SchemaError("Server response has neither profile nor error");
+  }
+
+  const profiles = Array.isArray(profile) ? profile : [profile];
+  return validateProfiles(profiles, "Server returned malformed profile data");
+};
+
+export const scrapeByUrl = async (
+  request: ScrapeByUrlRequest,
+  signal?: AbortSignal
+): Promise<Profile[]> => {
+  const data = await requestJson(
+    "POST",
+    "/linkedin/scrape_by_url",
+    request,
+    signal
+  );
+  return parseScrapeByUrlResponse(data);
+};
+
+// Scrape jobs: the server scrapes in the background and the client polls the
+// job, receiving profiles as they are scraped instead of in one long request
+
+export type ScrapeJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+const SCRAPE_JOB_STATUSES: ScrapeJobStatus[] = [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+export interface ScrapeJob {
+  job_id: string;
+  status: ScrapeJobStatus;
+  total: number;
+  completed: number;
+  profiles: Profile[];
+  error?: string;
+}
+
+export const isScrapeJobDone = (job: ScrapeJob) =>
+  job.status === "completed" ||
+  job.status === "failed" ||
+  job.status === "cancelled";
+
+export const parseScrapeJob = (data: unknown): ScrapeJob => {
+  if (typeof data !== "object" || data === null) {
+    throw new SchemaError("Job response must be an object");
+  }
+  const job = data as Record<string, unknown>;
+  const issues: string[] = [];
+  if (typeof job.job_id !== "string" || !job.job_id) {
+    issues.push("job.job_id must be a non-empty string");
+  }
+  if (!SCRAPE_JOB_STATUSES.includes(job.status as ScrapeJobStatus)) {
+    issues.push(`job.status must be one of ${SCRAPE_JOB_STATUSES.join(", ")}`);
+  }
+  if (typeof job.total !== "number") issues.push("job.total must be a number");
+  if (typeof job.completed !== "number") {
+    issues.push("job.completed must be a number");
+  }
+  if (job.profiles !== undefined && !Array.isArray(job.profiles)) {
+    issues.push("job.profiles must be a list");
+  }
+  if (issues.length > 0) {
+    throw new SchemaError("Server returned a malformed job", issues);
+  }
+
+  return {
+    job_id: job.job_id as string,
+    status: job.status as ScrapeJobStatus,
+    total: job.total as number,
+    completed: job.completed as number,
+    profiles: validateProfiles(
+      (job.profiles as unknown[] | undefined) || [],
+      "Server returned malformed profile data"
+    ),
+    error: typeof job.error === "string" ? job.error : undefined,
+  };
+};
+
+export const createScrapeJob = async (
+  request: ScrapeByUrlRequest,
+  signal?: AbortSignal
+) =>
+  parseScrapeJob(
+    await requestJson("POST", "/linkedin/scrape_jobs", request, signal)
+  );
+
+export const getScrapeJob = async (jobId: string, signal?: AbortSignal) =>
+  parseScrapeJob(
+    await requestJson(
+      "GET",
+      `/linkedin/scrape_jobs/${encodeURIComponent(jobId)}`,
+      undefined,
+      signal
+    )
+  );
+
+export const cancelScrapeJob = async (jobId: string) => {
+  await requestJson(
+    "DELETE",
+    `/linkedin/scrape_jobs/${encodeURIComponent(jobId)}`
+  );
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface ScrapeProgress {
+  total: number;
+  completed: number;
+  profiles: Profile[];
+}
+
+export interface RunScrapeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ScrapeProgress) => void;
+  // Called with the capped limit before falling back to scrape_by_url
+  onLegacyFallback?: (limit: number) => void;
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// Most profiles a single blocking scrape_by_url request asks for: larger
+// requests run into browser timeouts
+export const LEGACY_MAX_PROFILES = 5;
+
+// Submits a scrape job and polls it until it finishes, reporting every batch
+// of profiles through onProgress. Aborting the signal cancels the job on the
+// server.
+//
+// Backends without the jobs endpoint fall back to scrape_by_url, capped at
+// LEGACY_MAX_PROFILES. Aborting that request only stops the client waiting,
+// the server keeps scraping.
+export const runScrape = async (
+  request: ScrapeByUrlRequest,
+  {
+    signal,
+    onProgress,
+    onLegacyFallback,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  }: RunScrapeOptions = {}
+): Promise<Profile[]> => {
+  let job: ScrapeJob;
+  try {
+    job = await createScrapeJob(request, signal);
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 404) {
+      const limit = Math.min(request.limit, LEGACY_MAX_PROFILES);
+      onLegacyFallback?.(limit);
+      const profiles = await scrapeByUrl({ ...request, limit }, signal);
+      onProgress?.({
+        total: profiles.length,
+        completed: profiles.length,
+        profiles,
+      });
+      return profiles;
+    }
+    throw error;
+  }
+
+  try {
+    for (;;) {
+      onProgress?.({
+        total: job.total,
+        completed: job.completed,
+        profiles: job.profiles,
+      });
+      if (isScrapeJobDone(job)) break;
+      await wait(pollIntervalMs, signal);
+      job = await getScrapeJob(job.job_id, signal);
+    }
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      // Best effort: the user has already moved on if this fails
+      await cancelScrapeJob(job.job_id).catch(console.error);
+    }
+    throw error;
+  }
+
+  if (job.status === "failed") {
+    throw new ScrapeError(job.error || "Scrape job failed");
+  }
+  if (job.status === "cancelled") {
+    throw new CancelledError(job.error || "Scrape job was cancelled");
+  }
+  return job.profiles;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { strFromU8 } from "fflate";
+import { buildResumeFiles, toJsonResume } from "./ats";
+import { fullProfile, secondProfile } from "./fixtures";
+
+describe("toJsonResume", () => {
+  it("maps the roles, education and parsed skills", () => {
+    const resume = toJsonResume(fullProfile);
+    expect(resume.basics.name).toBe("Priya Raman");
+    expect(resume.work.map((work) => work.position)).toEqual([
+      "Staff Software Engineer",
+      "Senior Software Engineer",
+      "Software Engineer",
+    ]);
+    expect(resume.work[0]).toMatchObject({
+      name: "Finlytics",
+      startDate: "2022-04",
+    });
+    expect(resume.work[0]).not.toHaveProperty("endDate");
+    expect(resume.education[0].studyType).toBe(
+      "Bachelor of Technology - BTech, Computer Science"
+    );
+    expect(resume.skills).toEqual([
+      { name: "Go" },
+      { name: "PostgreSQL" },
+      { name: "Kafka" },
+      { name: "Java" },
+      { name: "Spring Boot" },
+    ]);
+  });
+});
+
+describe("buildResumeFiles", () => {
+  it("writes one resume.json document per candidate", () => {
+    const files = buildResumeFiles([fullProfile, secondProfile, fullProfile]);
+    expect(Object.keys(files)).toEqual([
+      "priya-raman/resume.json",
+      "daniel-okafor/resume.json",
+      "priya-raman-2/resume.json",
+    ]);
+    const resume = JSON.parse(strFromU8(files["daniel-okafor/resume.json"]));
+    expect(resume.basics.name).toBe("Daniel Okafor");
+  });
+});
@@ -0,0 +1,177 @@
+import * as XLSX from "xlsx";
+import { strToU8, zipSync } from "fflate";
+import { Profile } from "./types";
+import { Triage, TriageMap, getTriage } from "./triage";
+import { flattenRoles, getProfileSkills } from "./profile";
+import { downloadFile, toFileSlug } from "./download";
+import { parseDateRange, toIsoMonth } from "./timeline";
+
+// JSON Resume dates; an ongoing role has no endDate
+const resumeDates = (dateRange?: string) => {
+  const period = parseDateRange(dateRange);
+  if (!period) return {};
+  return {
+    startDate: toIsoMonth(period.start),
+    ...(period.isCurrent ? {} : { endDate: toIsoMonth(period.end) }),
+  };
+};
+
+// Exports for tools other than spreadsheets: raw JSON, JSON Resume
+// (https://jsonresume.org/schema), vCard and an ATS bulk-import CSV
+
+export const exportToJson = (profiles: Profile[], fileName = "profiles.json") =>
+  downloadFile(fileName, JSON.stringify(profiles, null, 2), "application/json");
+
+// JSON Resume
+
+export const toJsonResume = (profile: Profile) => ({
+  $schema:
+    "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json",
+  basics: {
+    name: profile.name || "",
+    label: profile.title || "",
+    url: profile.profile_url || "",
+    location: { address: profile.location || "" },
+    profiles: profile.profile_url
+      ? [{ network: "LinkedIn", url: profile.profile_url }]
+      : [],
+  },
+  work: (profile.experiences || []).flatMap((exp) =>
+    flattenRoles(exp).map((role) => ({
+      name: exp.company,
+      position: role.title || "",
+      location: role.location || "",
+      ...resumeDates(role.dateRange),
+      highlights: role.description || [],
+    }))
+  ),
+  education: (profile.education || []).map((edu) => ({
+    institution: edu.institution,
+    studyType: edu.degree,
+    ...resumeDates(edu.date),
+    courses: edu.details,
+  })),
+  skills: getProfileSkills(profile).map((skill) => ({ name: skill })),
+  meta: {
+    canonical: profile.profile_url || "",
+    lastModified: new Date().toISOString(),
+  },
+});
+
+const toResumeFile = (profile: Profile) =>
+  JSON.stringify(toJsonResume(profile), null, 2);
+
+// Zip entries, with a folder per candidate named after them
+export const buildResumeFiles = (profiles: Profile[]) => {
+  const files: Record<string, Uint8Array> = {};
+  profiles.forEach((profile) => {
+    const slug = toFileSlug(profile.name || "profile");
+    let folder = slug;
+    for (let n = 2; `${folder}/resume.json` in files; n++) {
+      folder = `${slug}-${n}`;
+    }
+    files[`${folder}/resume.json`] = strToU8(toResumeFile(profile));
+  });
+  return files;
+};
+
+// A resume.json per candidate, since importers read one document per file.
+// Several candidates are zipped, a folder each: browsers block most of a
+// burst of automatic downloads.
+export const exportToJsonResume = (profiles: Profile[]) => {
+  if (profiles.length === 1) {
+    downloadFile("resume.json", toResumeFile(profiles[0]), "application/json");
+    return;
+  }
+  downloadFile(
+    "json-resumes.zip",
+    zipSync(buildResumeFiles(profiles)),
+    "application/zip"
+  );
+};
+
+// vCard 3.0
+
+const escapeVCard = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+
+// Lines longer than 75 characters are folded with CRLF + space
+const foldLine = (line: string) =>
+  line.match(/.{1,74}/g)?.join("\r\n ") ?? line;
+
+export const toVCard = (profile: Profile, triage: Triage) => {
+  const name = (profile.name || "").trim();
+  const parts = name.split(/\s+/);
+  const lastName = parts.length > 1 ? parts.pop()! : "";
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeVCard(name)}`,
+    `N:${escapeVCard(lastName)};${escapeVCard(parts.join(" "))};;;`,
+  ];
+  if (profile.title) lines.push(`TITLE:${escapeVCard(profile.title)}`);
+  const company = profile.experiences?.[0]?.company;
+  if (company) lines.push(`ORG:${escapeVCard(company)}`);
+  if (profile.location) {
+    lines.push(`ADR;TYPE=WORK:;;;${escapeVCard(profile.location)};;;`);
+  }
+  if (profile.profile_url) lines.push(`URL:${profile.profile_url}`);
+  if (triage.tags?.length) {
+    lines.push(`CATEGORIES:${triage.tags.map(escapeVCard).join(",")}`);
+  }
+  if (triage.notes) lines.push(`NOTE:${escapeVCard(triage.notes)}`);
+  lines.push("END:VCARD");
+  return lines.map(foldLine).join("\r\n");
+};
+
+export const exportToVCard = (
+  profiles: Profile[],
+  triage: TriageMap = {},
+  fileName = "profiles.vcf"
+) =>
+  downloadFile(
+    fileName,
+    profiles
+      .map((profile) => toVCard(profile, getTriage(triage, profile)))
+      .join("\r\n"),
+    "text/vcard"
+  );
+
+// ATS bulk import, using the column names of Lever's candidate CSV import
+// (Greenhouse maps the same columns in its import wizard)
+
+export const buildAtsRows = (profiles: Profile[], triage: TriageMap = {}) =>
+  profiles.map((profile) => {
+    const { tags, notes } = getTriage(triage, profile);
+    const current = profile.experiences?.[0];
+    return {
+      Name: profile.name || "",
+      Email: "",
+      Phone: "",
+      Location: profile.location || "",
+      "Current Company": current?.company || "",
+      "Current Title":
+        (current && flattenRoles(current)[0]?.title) || profile.title || "",
+      Links: profile.profile_url || "",
+      Tags: (tags || []).join(", "),
+      Notes: notes || "",
+      Source: "LinkedIn",
+    };
+  });
+
+export const exportToAtsCsv = (
+  profiles: Profile[],
+  triage: TriageMap = {},
+  fileName = "candidates-ats.csv"
+) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(buildAtsRows(profiles, triage)),
+    "Candidates"
+  );
+  XLSX.writeFile(workbook, fileName, { bookType: "csv" });
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseBatchInput } from "./batch";
+
+const SEARCH = "https://www.linkedin.com/search/results/people/?keywords=go";
+
+const parse = (text: string) => parseBatchInput(text, 10, 50);
+
+describe("parseBatchInput", () => {
+  it("reads one search per line with the default limit", () => {
+    expect(parse(`${SEARCH}\n\n# later\n${SEARCH}&page=2`)).toEqual({
+      entries: [
+        { url: SEARCH, limit: 10 },
+        { url: `${SEARCH}&page=2`, limit: 10 },
+      ],
+      errors: [],
+    });
+  });
+
+  it("takes the limit from a tab separated column", () => {
+    expect(parse(`url\tlimit\n${SEARCH},rust\t5`).entries).toEqual([
+      { url: `${SEARCH},rust`, limit: 5 },
+    ]);
+  });
+
+  it("takes the limit from the column after a quoted URL", () => {
+    expect(parse(`"${SEARCH},5",20\n"${SEARCH}"; 3`).entries).toEqual([
+      { url: `${SEARCH},5`, limit: 20 },
+      { url: SEARCH, limit: 3 },
+    ]);
+  });
+
+  it("keeps commas that can't be a limit in an unquoted URL", () => {
+    expect(parse(`${SEARCH},rust`).entries).toEqual([
+      { url: `${SEARCH},rust`, limit: 10 },
+    ]);
+  });
+
+  it("rejects an unquoted URL ending in a number after a comma", () => {
+    const { entries, errors } = parse(`${SEARCH},5`);
+    expect(entries).toEqual([]);
+    expect(errors).toEqual([
+      'Line 1: quote the URL ("url",limit) or separate the limit with a tab',
+    ]);
+  });
+
+  it("reports invalid URLs and limits by line", () => {
+    expect(
+      parse(`${SEARCH}\nhttps://example.com\n${SEARCH}\t0`).errors
+    ).toEqual([
+      'Line 2: "https://example.com" is not a LinkedIn URL',
+      "Line 3: limit must be a whole number from 1 to 50",
+    ]);
+  });
+});
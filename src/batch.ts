@@ -0,0 +1,112 @@
+import { Profile } from "./types";
+
+// A batch is a list of LinkedIn search URLs scraped one after another with
+// the same session cookie
+
+export interface BatchEntry {
+  url: string;
+  limit: number;
+}
+
+export type BatchEntryState =
+  | { status: "pending" }
+  | { status: "running"; completed: number; total: number }
+  | { status: "done"; count: number }
+  | { status: "failed"; error: string }
+  | { status: "cancelled" };
+
+export interface BatchParseResult {
+  entries: BatchEntry[];
+  errors: string[];
+}
+
+const isLinkedInUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return /(^|\.)linkedin\.com$/.test(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+const unquote = (cell: string) =>
+  cell
+    .trim()
+    .replace(/^"(.*)"$/, "$1")
+    .replace(/""/g, '"');
+
+// A quoted URL cell, optionally followed by a comma or semicolon and the
+// limit cell
+const QUOTED_ROW = /^"((?:[^"]|"")*)"\s*(?:[,;]\s*(.*))?$/;
+// An unquoted URL ending in a separator and a number, which may be a limit
+// or part of the URL (?keywords=go,5)
+const TRAILING_NUMBER = /[,;]\s*"?-?[\d.]+"?$/;
+
+// Splits a line into its URL and limit cells. URLs never contain tabs, so a
+// tab always separates the cells; a comma or semicolon only does after a
+// quoted URL. Null when the line is ambiguous.
+const splitRow = (line: string): string[] | null => {
+  if (line.includes("\t")) return line.split("\t").map(unquote);
+  const quoted = line.match(QUOTED_ROW);
+  if (quoted) {
+    const [, url, limit] = quoted;
+    return [url.replace(/""/g, '"'), unquote(limit || "")];
+  }
+  if (TRAILING_NUMBER.test(line)) return null;
+  return [line.replace(/[,;]+$/, "")];
+};
+
+// Parses one search per line, either `url` or `url<tab>limit`, or as CSV
+// with the URL quoted: `"url",limit` (semicolons work too). A header row,
+// blank lines and lines starting with # are skipped.
+export const parseBatchInput = (
+  text: string,
+  defaultLimit: number,
+  maxLimit: number
+): BatchParseResult => {
+  const entries: BatchEntry[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const cells = splitRow(line);
+    if (!cells) {
+      errors.push(
+        `Line ${
+          index + 1
+        }: quote the URL ("url",limit) or separate the limit with a tab`
+      );
+      return;
+    }
+    const [rawUrl, rawLimit] = cells;
+    if (index === 0 && !/^https?:/i.test(rawUrl)) return; // header row
+
+    if (!isLinkedInUrl(rawUrl)) {
+      errors.push(`Line ${index + 1}: "${rawUrl}" is not a LinkedIn URL`);
+      return;
+    }
+    const limit = rawLimit ? Number(rawLimit) : defaultLimit;
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      errors.push(
+        `Line ${index + 1}: limit must be a whole number from 1 to ${maxLimit}`
+      );
+      return;
+    }
+    entries.push({ url: rawUrl, limit });
+  });
+
+  return { entries, errors };
+};
+
+// Records the originating search on each profile
+export const withSource = (
+  profiles: Profile[],
+  searchUrl: string,
+  scrapedAt: string
+): Profile[] =>
+  profiles.map((profile) => ({
+    ...profile,
+    sources: [...(profile.sources || []), { searchUrl, scrapedAt }],
+  }));
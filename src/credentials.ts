@@ -0,0 +1,128 @@
+// Handling of the LinkedIn li_at session cookie: reading it from a handoff
+// link without leaving it in the address bar, validating it, and optionally
+// remembering it encrypted with a user passphrase.
+
+const COOKIE_PARAM = "cookie";
+const STORAGE_KEY = "sessionCookie.encrypted";
+const PBKDF2_ITERATIONS = 250000;
+
+// Accepts `li_at=AQED...`, a quoted value or the bare value
+export const normalizeSessionCookie = (value: string) =>
+  value
+    .trim()
+    .replace(/^li_at=/, "")
+    .replace(/;.*$/, "")
+    .replace(/^"(.*)"$/, "$1")
+    .trim();
+
+// Returns an error message, or null when the cookie looks usable
+export const validateSessionCookie = (value: string): string | null => {
+  const cookie = normalizeSessionCookie(value);
+  if (!cookie) return "Session cookie is required";
+  if (/\s/.test(cookie)) return "Session cookie must not contain spaces";
+  if (!/^[A-Za-z0-9_\-.~%=+/]+$/.test(cookie)) {
+    return "Session cookie contains invalid characters";
+  }
+  if (cookie.length < 100) {
+    return "Session cookie looks too short, copy the whole li_at value";
+  }
+  return null;
+};
+
+// Reads the cookie handed over in the URL (preferably `#cookie=...`, which is
+// never sent to a server; `?cookie=...` is still read for old links) and
+// removes it from the address bar and history entry right away.
+export const takeSessionCookieFromUrl = (): string | null => {
+  const url = new URL(window.location.href);
+  const hashParams = new URLSearchParams(url.hash.replace(/^#/, ""));
+  const cookie =
+    hashParams.get(COOKIE_PARAM) || url.searchParams.get(COOKIE_PARAM);
+
+  if (hashParams.has(COOKIE_PARAM) || url.searchParams.has(COOKIE_PARAM)) {
+    hashParams.delete(COOKIE_PARAM);
+    url.searchParams.delete(COOKIE_PARAM);
+    const hash = hashParams.toString();
+    url.hash = hash ? `#${hash}` : "";
+    window.history.replaceState(window.history.state, "", url.toString());
+  }
+  return cookie ? normalizeSessionCookie(cookie) : null;
+};
+
+// Encrypted storage (PBKDF2 + AES-GCM). WebCrypto is only exposed on secure
+// origins (https or localhost), so callers must check isEncryptionAvailable.
+
+interface StoredCookie {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export const isEncryptionAvailable = () =>
+  typeof window !== "undefined" && !!window.crypto?.subtle;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const hasStoredSessionCookie = () =>
+  localStorage.getItem(STORAGE_KEY) !== null;
+
+export const storeSessionCookie = async (
+  cookie: string,
+  passphrase: string
+) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(cookie)
+  );
+  const stored: StoredCookie = {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(data),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+// Throws when the passphrase is wrong or nothing is stored
+export const loadSessionCookie = async (passphrase: string) => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) throw new Error("No saved session cookie");
+  const stored: StoredCookie = JSON.parse(raw);
+  const key = await deriveKey(passphrase, fromBase64(stored.salt));
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(stored.iv) },
+      key,
+      fromBase64(stored.data)
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+};
+
+export const clearStoredSessionCookie = () =>
+  localStorage.removeItem(STORAGE_KEY);
@@ -0,0 +1,91 @@
+import { Profile } from "./types";
+import { BatchEntry } from "./batch";
+
+// Scrape runs are kept in IndexedDB so results survive a page reload and past
+// searches can be reopened without scraping LinkedIn again.
+
+const DB_NAME = "linkedin-search-export";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+
+export interface Run {
+  id: number;
+  searchUrl: string;
+  createdAt: string; // ISO timestamp
+  limit: number;
+  profiles: Profile[];
+  // Every search of a batch run; searchUrl and limit describe the first one
+  searches?: BatchEntry[];
+  // File name for runs loaded from an export instead of scraped
+  importedFrom?: string;
+}
+
+export type NewRun = Omit<Run, "id">;
+
+// What the history list shows of a run. The full runs are still loaded, as
+// the "seen before" badges need the profiles of every earlier run.
+export interface RunSummary extends Omit<Run, "profiles"> {
+  profileCount: number;
+}
+
+export const toSummary = ({ profiles, ...run }: Run): RunSummary => ({
+  ...run,
+  profileCount: profiles.length,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          const store = db.createObjectStore(RUNS_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return promisify(
+    action(db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE))
+  );
+};
+
+export const saveRun = async (run: NewRun): Promise<Run> => {
+  const id = await withStore("readwrite", (store) => store.add(run));
+  return { ...run, id: id as number };
+};
+
+export const getRun = async (id: number): Promise<Run | undefined> =>
+  withStore("readonly", (store) => store.get(id));
+
+// Oldest first, with all profiles
+export const getAllRuns = (): Promise<Run[]> =>
+  withStore("readonly", (store) => store.index("createdAt").getAll());
+
+export const deleteRun = (id: number) =>
+  withStore("readwrite", (store) => store.delete(id));
@@ -0,0 +1,358 @@
+import * as XLSX from "xlsx"; // Import SheetJS for Excel export
+import { Profile, Role } from "./types";
+import { flattenRoles, getProfileSkills, parseSkills } from "./profile";
+import {
+  formatDuration,
+  formatMonth,
+  getCareerSummary,
+  monthsToYears,
+  parseDateRange,
+  periodMonths,
+  toIsoMonth,
+} from "./timeline";
+import { Triage, TriageMap, getTriage } from "./triage";
+import {
+  ANALYTICS_HEADER,
+  buildAnalytics,
+  buildAnalyticsRows,
+} from "./analytics";
+
+// Every sheet starts with these columns so rows can be joined back to the
+// summary sheet (profile_url is not guaranteed, so profile_id is the stable key)
+const profileKey = (profile: Profile, index: number) => ({
+  profile_id: index + 1,
+  profile_url: profile.profile_url || "",
+  name: profile.name || "",
+});
+
+const joinLines = (lines?: string[]) => (lines || []).join("\n");
+
+// Columns of the one-row-per-profile exports (Excel summary sheet and CSV).
+// The user picks which of them to include; required ones are always written.
+export interface ExportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  defaultSelected?: boolean;
+  value: (profile: Profile, triage: Triage) => string | number;
+}
+
+const describeRole = (company: string, role: Role) =>
+  [role.title, company].filter(Boolean).join(" at ") +
+  (role.dateRange ? ` (${role.dateRange})` : "");
+
+export const PROFILE_FIELDS: ExportField[] = [
+  { key: "name", label: "Name", required: true, value: (p) => p.name || "" },
+  {
+    key: "profile_url",
+    label: "Profile URL",
+    required: true,
+    value: (p) => p.profile_url || "",
+  },
+  { key: "title", label: "Title", value: (p) => p.title || "" },
+  { key: "location", label: "Location", value: (p) => p.location || "" },
+  {
+    key: "current_company",
+    label: "Current company",
+    value: (p) => p.experiences?.[0]?.company || "",
+  },
+  {
+    key: "experience_count",
+    label: "Experience count",
+    value: (p) => p.experiences?.length || 0,
+  },
+  {
+    key: "education_count",
+    label: "Education count",
+    value: (p) => p.education?.length || 0,
+  },
+  {
+    key: "total_experience_years",
+    label: "Total experience (years)",
+    value: (p) => monthsToYears(getCareerSummary(p).totalMonths),
+  },
+  {
+    key: "current_company_tenure_years",
+    label: "Tenure at current company (years)",
+    value: (p) => {
+      const { currentTenureMonths } = getCareerSummary(p);
+      return currentTenureMonths === undefined
+        ? ""
+        : monthsToYears(currentTenureMonths);
+    },
+  },
+  {
+    key: "career_gaps",
+    label: "Career gaps",
+    defaultSelected: false,
+    value: (p) =>
+      joinLines(
+        getCareerSummary(p).gaps.map(
+          (gap) =>
+            `${formatMonth(gap.start)} - ${formatMonth(
+              gap.end
+            )} (${formatDuration(gap.months)})`
+        )
+      ),
+  },
+  {
+    key: "experience",
+    label: "Experience (all roles)",
+    defaultSelected: false,
+    value: (p) =>
+      joinLines(
+        (p.experiences || []).flatMap((exp) =>
+          flattenRoles(exp).map((role) => describeRole(exp.company, role))
+        )
+      ),
+  },
+  {
+    key: "education",
+    label: "Education (all entries)",
+    defaultSelected: false,
+    value: (p) =>
+      joinLines(
+        (p.education || []).map((edu) =>
+          [edu.degree, edu.institution, edu.date].filter(Boolean).join(", ")
+        )
+      ),
+  },
+  {
+    key: "skills",
+    label: "Skills",
+    defaultSelected: false,
+    value: (p) => getProfileSkills(p).join(", "),
+  },
+  {
+    key: "personal_information_score",
+    label: "Personal information score",
+    defaultSelected: false,
+    value: (p) => p.evaluation?.personal_information?.score ?? "",
+  },
+  {
+    key: "education_score",
+    label: "Education score",
+    defaultSelected: false,
+    value: (p) => p.evaluation?.education?.score ?? "",
+  },
+  {
+    key: "work_experience_score",
+    label: "Work experience score",
+    defaultSelected: false,
+    value: (p) => p.evaluation?.work_experience?.score ?? "",
+  },
+  {
+    key: "overall_score",
+    label: "Overall score",
+    value: (p) => p.evaluation?.overall_score ?? "",
+  },
+  {
+    key: "actionable_insights",
+    label: "Actionable insights",
+    defaultSelected: false,
+    value: (p) => joinLines(p.evaluation?.actionable_insights),
+  },
+  { key: "status", label: "Status", value: (_, t) => t.status || "" },
+  { key: "tags", label: "Tags", value: (_, t) => (t.tags || []).join(", ") },
+  { key: "notes", label: "Notes", value: (_, t) => t.notes || "" },
+  {
+    key: "source_searches",
+    label: "Source searches",
+    value: (p) =>
+      joinLines((p.sources || []).map((source) => source.searchUrl)),
+  },
+];
+
+export const DEFAULT_FIELD_KEYS = PROFILE_FIELDS.filter(
+  (field) => field.defaultSelected !== false
+).map((field) => field.key);
+
+const selectFields = (fieldKeys: string[]) =>
+  PROFILE_FIELDS.filter(
+    (field) => field.required || fieldKeys.includes(field.key)
+  );
+
+export const buildSummaryRows = (
+  profiles: Profile[],
+  triage: TriageMap = {},
+  fieldKeys: string[] = DEFAULT_FIELD_KEYS
+) => {
+  const fields = selectFields(fieldKeys);
+  return profiles.map((profile, index) => {
+    const profileTriage = getTriage(triage, profile);
+    const row: Record<string, string | number> = {
+      profile_id: index + 1,
+    };
+    fields.forEach((field) => {
+      row[field.key] = field.value(profile, profileTriage);
+    });
+    return row;
+  });
+};
+
+const summaryHeader = (fieldKeys: string[]) => [
+  "profile_id",
+  ...selectFields(fieldKeys).map((field) => field.key),
+];
+
+const periodColumns = (dateRange?: string) => {
+  const period = parseDateRange(dateRange);
+  return {
+    start_date: period ? toIsoMonth(period.start) : "",
+    end_date: period
+      ? period.isCurrent
+        ? "Present"
+        : toIsoMonth(period.end)
+      : "",
+    duration_months: period ? periodMonths(period) : "",
+  };
+};
+
+export const buildExperienceRows = (profiles: Profile[]) =>
+  profiles.flatMap((profile, index) =>
+    (profile.experiences || []).flatMap((exp, expIndex) =>
+      flattenRoles(exp).map((role, roleIndex) => ({
+        ...profileKey(profile, index),
+        experience_index: expIndex + 1,
+        role_index: roleIndex + 1,
+        company: exp.company || "",
+        title: role.title || "",
+        date_range: role.dateRange || "",
+        ...periodColumns(role.dateRange),
+        location: role.location || "",
+        description: joinLines(role.description),
+        skills: parseSkills(exp.skills).join(", "),
+      }))
+    )
+  );
+
+export const buildEducationRows = (profiles: Profile[]) =>
+  profiles.flatMap((profile, index) =>
+    (profile.education || []).map((edu, eduIndex) => ({
+      ...profileKey(profile, index),
+      education_index: eduIndex + 1,
+      institution: edu.institution || "",
+      degree: edu.degree || "",
+      date: edu.date || "",
+      details: joinLines(edu.details),
+    }))
+  );
+
+export const buildEvaluationRows = (profiles: Profile[]) =>
+  profiles.flatMap((profile, index) => {
+    const evaluation = profile.evaluation;
+    if (!evaluation) return [];
+    return [
+      {
+        ...profileKey(profile, index),
+        personal_information_score: evaluation.personal_information?.score,
+        personal_information_explanation:
+          evaluation.personal_information?.explanation || "",
+        education_score: evaluation.education?.score,
+        education_explanation: evaluation.education?.explanation || "",
+        work_experience_score: evaluation.work_experience?.score,
+        work_experience_explanation:
+          evaluation.work_experience?.explanation || "",
+        overall_score: evaluation.overall_score,
+        actionable_insights: joinLines(evaluation.actionable_insights),
+      },
+    ];
+  });
+
+// json_to_sheet emits nothing for an empty array, so keep the header row
+// in place to give every sheet the same layout regardless of the data
+const toSheet = (rows: object[], header: string[]) =>
+  XLSX.utils.json_to_sheet(rows, { header });
+
+export const exportToExcel = (
+  profiles: Profile[],
+  triage: TriageMap = {},
+  fieldKeys: string[] = DEFAULT_FIELD_KEYS,
+  fileName = "profiles.xlsx"
+) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(
+      buildSummaryRows(profiles, triage, fieldKeys),
+      summaryHeader(fieldKeys)
+    ),
+    "Profiles"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(buildExperienceRows(profiles), [
+      "profile_id",
+      "profile_url",
+      "name",
+      "experience_index",
+      "role_index",
+      "company",
+      "title",
+      "date_range",
+      "start_date",
+      "end_date",
+      "duration_months",
+      "location",
+      "description",
+      "skills",
+    ]),
+    "Experience"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(buildEducationRows(profiles), [
+      "profile_id",
+      "profile_url",
+      "name",
+      "education_index",
+      "institution",
+      "degree",
+      "date",
+      "details",
+    ]),
+    "Education"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(buildEvaluationRows(profiles), [
+      "profile_id",
+      "profile_url",
+      "name",
+      "personal_information_score",
+      "personal_information_explanation",
+      "education_score",
+      "education_explanation",
+      "work_experience_score",
+      "work_experience_explanation",
+      "overall_score",
+      "actionable_insights",
+    ]),
+    "Evaluation"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(buildAnalyticsRows(buildAnalytics(profiles)), ANALYTICS_HEADER),
+    "Summary"
+  );
+  XLSX.writeFile(workbook, fileName);
+};
+
+// One row per profile, nested data flattened into the selected columns
+export const exportToCsv = (
+  profiles: Profile[],
+  triage: TriageMap = {},
+  fieldKeys: string[] = DEFAULT_FIELD_KEYS,
+  fileName = "profiles.csv"
+) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(
+      buildSummaryRows(profiles, triage, fieldKeys),
+      summaryHeader(fieldKeys)
+    ),
+    "Profiles"
+  );
+  XLSX.writeFile(workbook, fileName, { bookType: "csv" });
+};
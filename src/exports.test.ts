@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { toast } from "react-hot-toast";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  loadExportFieldKeys,
+  runExport,
+  saveExportFieldKeys,
+} from "./exports";
+import { DEFAULT_FIELD_KEYS, exportToCsv } from "./exportFields";
+import { downloadProfilesPdf } from "./pdf";
+import { getTriageKey } from "./triage";
+import { fullProfile, secondProfile } from "./fixtures";
+
+vi.mock("react-hot-toast", () => ({ toast: { error: vi.fn() } }));
+
+vi.mock("./exportFields", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./exportFields")>()),
+  exportToCsv: vi.fn(),
+}));
+
+vi.mock("./pdf", () => ({ downloadProfilesPdf: vi.fn() }));
+
+const getFormat = (key: string) =>
+  EXPORT_FORMATS.find((format) => format.key === key)!;
+
+afterEach(() => {
+  vi.clearAllMocks();
+  localStorage.clear();
+});
+
+describe("runExport", () => {
+  it("passes the profiles, triage and picked fields to the format", () => {
+    const triage = {
+      [fullProfile.profile_url!]: { status: "rejected" as const },
+    };
+    runExport(getFormat("csv"), {
+      profiles: [fullProfile],
+      triage,
+      fieldKeys: ["title"],
+    });
+    expect(exportToCsv).toHaveBeenCalledWith([fullProfile], triage, ["title"]);
+  });
+
+  it("reports an empty export instead of running it", () => {
+    runExport(getFormat("csv"), { profiles: [], triage: {}, fieldKeys: [] });
+    expect(exportToCsv).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalledWith("No profiles to export");
+  });
+
+  it("reports a failing export", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing: ExportFormat = {
+      key: "broken",
+      label: "Broken",
+      description: "",
+      run: () => {
+        throw new Error("boom");
+      },
+    };
+    runExport(failing, { profiles: [fullProfile], triage: {}, fieldKeys: [] });
+    expect(toast.error).toHaveBeenCalledWith("Export failed");
+  });
+});
+
+describe("the shortlisted PDF export", () => {
+  it("only includes the shortlisted profiles", () => {
+    const triage = {
+      [getTriageKey(secondProfile)!]: { status: "shortlisted" as const },
+    };
+    runExport(getFormat("pdf-shortlisted"), {
+      profiles: [fullProfile, secondProfile],
+      triage,
+      fieldKeys: [],
+    });
+    expect(downloadProfilesPdf).toHaveBeenCalledWith(
+      [secondProfile],
+      triage,
+      "shortlisted-candidates"
+    );
+  });
+
+  it("reports when nobody is shortlisted", () => {
+    runExport(getFormat("pdf-shortlisted"), {
+      profiles: [fullProfile],
+      triage: {},
+      fieldKeys: [],
+    });
+    expect(downloadProfilesPdf).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalledWith(
+      "No shortlisted profiles to export"
+    );
+  });
+});
+
+describe("export field keys", () => {
+  it("round-trips through local storage", () => {
+    saveExportFieldKeys(["title", "skills"]);
+    expect(loadExportFieldKeys()).toEqual(["title", "skills"]);
+  });
+
+  it("falls back to the defaults", () => {
+    expect(loadExportFieldKeys()).toEqual(DEFAULT_FIELD_KEYS);
+    localStorage.setItem("exportFields", "{not json");
+    expect(loadExportFieldKeys()).toEqual(DEFAULT_FIELD_KEYS);
+  });
+});
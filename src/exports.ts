@@ -0,0 +1,117 @@
+import { toast } from "react-hot-toast";
+import { Profile } from "./types";
+import { TriageMap, getTriage } from "./triage";
+import { downloadProfilesPdf } from "./pdf";
+import { DEFAULT_FIELD_KEYS, exportToCsv, exportToExcel } from "./exportFields";
+import {
+  exportToAtsCsv,
+  exportToJson,
+  exportToJsonResume,
+  exportToVCard,
+} from "./ats";
+
+// Every export format offered in the Export menu. Each one receives the
+// profiles currently shown (after filters) plus what it may need from the
+// rest of the app.
+
+export interface ExportContext {
+  profiles: Profile[];
+  triage: TriageMap;
+  fieldKeys: string[]; // columns picked for the tabular formats
+}
+
+export interface ExportFormat {
+  key: string;
+  label: string;
+  description: string;
+  usesFields?: boolean; // whether the field picker applies
+  run: (context: ExportContext) => void;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    key: "xlsx",
+    label: "Excel (.xlsx)",
+    description:
+      "Profiles, Experience, Education, Evaluation and Summary sheets",
+    usesFields: true,
+    run: ({ profiles, triage, fieldKeys }) =>
+      exportToExcel(profiles, triage, fieldKeys),
+  },
+  {
+    key: "csv",
+    label: "CSV",
+    description: "One flattened row per profile",
+    usesFields: true,
+    run: ({ profiles, triage, fieldKeys }) =>
+      exportToCsv(profiles, triage, fieldKeys),
+  },
+  {
+    key: "json",
+    label: "JSON",
+    description: "Full profile data as scraped",
+    run: ({ profiles }) => exportToJson(profiles),
+  },
+  {
+    key: "json-resume",
+    label: "JSON Resume",
+    description: "A resume.json per candidate, zipped when there are several",
+    run: ({ profiles }) => exportToJsonResume(profiles),
+  },
+  {
+    key: "vcard",
+    label: "vCard (.vcf)",
+    description: "Contacts for address books and CRMs",
+    run: ({ profiles, triage }) => exportToVCard(profiles, triage),
+  },
+  {
+    key: "ats",
+    label: "ATS import CSV",
+    description: "Lever / Greenhouse candidate import columns",
+    run: ({ profiles, triage }) => exportToAtsCsv(profiles, triage),
+  },
+  {
+    key: "pdf-shortlisted",
+    label: "PDF (shortlisted)",
+    description: "One document with a page per shortlisted candidate",
+    run: ({ profiles, triage }) => {
+      const shortlisted = profiles.filter(
+        (profile) => getTriage(triage, profile).status === "shortlisted"
+      );
+      if (shortlisted.length === 0) {
+        toast.error("No shortlisted profiles to export");
+        return;
+      }
+      downloadProfilesPdf(shortlisted, triage, "shortlisted-candidates");
+    },
+  },
+];
+
+const FIELDS_STORAGE_KEY = "exportFields";
+
+// Columns picked in the Export menu's field picker
+export const loadExportFieldKeys = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FIELDS_STORAGE_KEY) || "");
+    return Array.isArray(saved) ? saved : DEFAULT_FIELD_KEYS;
+  } catch {
+    return DEFAULT_FIELD_KEYS;
+  }
+};
+
+export const saveExportFieldKeys = (fieldKeys: string[]) =>
+  localStorage.setItem(FIELDS_STORAGE_KEY, JSON.stringify(fieldKeys));
+
+// Runs an export, reporting failures instead of throwing
+export const runExport = (format: ExportFormat, context: ExportContext) => {
+  if (context.profiles.length === 0) {
+    toast.error("No profiles to export");
+    return;
+  }
+  try {
+    format.run(context);
+  } catch (error) {
+    toast.error("Export failed");
+    console.error(error);
+  }
+};
@@ -0,0 +1,172 @@
+import { Profile } from "./types";
+import { getProfileSkills } from "./profile";
+import { getExperienceYears } from "./timeline";
+
+// Client-side rules that narrow down the loaded profiles. Rules are
+// combined within a group with AND or OR, and groups are combined the same
+// way, e.g. (location London OR location Berlin) AND (min score 7).
+
+export type FilterField =
+  | "location"
+  | "title"
+  | "currentCompany"
+  | "company"
+  | "school"
+  | "skill"
+  | "minScore"
+  | "minYears";
+
+export type FilterMatch = "all" | "any";
+
+export const FILTER_FIELDS: {
+  key: FilterField;
+  label: string;
+  numeric?: boolean;
+  placeholder: string;
+}[] = [
+  { key: "location", label: "Location contains", placeholder: "London" },
+  {
+    key: "title",
+    label: "Title has keyword",
+    placeholder: "engineer, developer",
+  },
+  {
+    key: "currentCompany",
+    label: "Current company",
+    placeholder: "Acme",
+  },
+  {
+    key: "company",
+    label: "Company (current or past)",
+    placeholder: "Acme",
+  },
+  { key: "school", label: "School", placeholder: "Stanford" },
+  { key: "skill", label: "Skill", placeholder: "React" },
+  {
+    key: "minScore",
+    label: "Overall score at least",
+    numeric: true,
+    placeholder: "7",
+  },
+  {
+    key: "minYears",
+    label: "Years of experience at least",
+    numeric: true,
+    placeholder: "3",
+  },
+];
+
+export interface FilterRule {
+  field: FilterField;
+  value: string;
+}
+
+export interface FilterGroup {
+  match: FilterMatch;
+  rules: FilterRule[];
+}
+
+export interface ProfileFilter {
+  match: FilterMatch;
+  groups: FilterGroup[];
+}
+
+export interface FilterPreset {
+  name: string;
+  filter: ProfileFilter;
+}
+
+export const EMPTY_FILTER: ProfileFilter = { match: "all", groups: [] };
+
+export const newFilterRule = (): FilterRule => ({
+  field: "location",
+  value: "",
+});
+
+export const newFilterGroup = (): FilterGroup => ({
+  match: "all",
+  rules: [newFilterRule()],
+});
+
+// Rules without a value are still being edited and don't filter anything
+const isActive = (rule: FilterRule) => rule.value.trim() !== "";
+
+export const countActiveRules = (filter: ProfileFilter) =>
+  filter.groups.reduce(
+    (count, group) => count + group.rules.filter(isActive).length,
+    0
+  );
+
+// Comma separated values are alternatives: "London, Berlin" matches either
+const terms = (value: string) =>
+  value
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+
+const containsAny = (texts: (string | undefined)[], value: string) =>
+  terms(value).some((term) =>
+    texts.some((text) => (text || "").toLowerCase().includes(term))
+  );
+
+const matchesRule = (profile: Profile, { field, value }: FilterRule) => {
+  const experiences = profile.experiences || [];
+  switch (field) {
+    case "location":
+      return containsAny([profile.location], value);
+    case "title":
+      return containsAny([profile.title], value);
+    case "currentCompany":
+      return containsAny([experiences[0]?.company], value);
+    case "company":
+      return containsAny(
+        experiences.map((exp) => exp.company),
+        value
+      );
+    case "school":
+      return containsAny(
+        (profile.education || []).map((edu) => edu.institution),
+        value
+      );
+    case "skill":
+      return containsAny(getProfileSkills(profile), value);
+    case "minScore": {
+      const score = profile.evaluation?.overall_score;
+      return score !== undefined && score >= Number(value);
+    }
+    case "minYears":
+      return getExperienceYears(profile) >= Number(value);
+  }
+};
+
+const combine = <T>(
+  match: FilterMatch,
+  items: T[],
+  test: (item: T) => boolean
+) => (match === "all" ? items.every(test) : items.some(test));
+
+export const matchesFilter = (profile: Profile, filter: ProfileFilter) => {
+  const groups = filter.groups
+    .map((group) => ({ ...group, rules: group.rules.filter(isActive) }))
+    .filter((group) => group.rules.length > 0);
+  return (
+    groups.length === 0 ||
+    combine(filter.match, groups, (group) =>
+      combine(group.match, group.rules, (rule) => matchesRule(profile, rule))
+    )
+  );
+};
+
+const PRESETS_STORAGE_KEY = "filterPresets";
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || "");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) =>
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
@@ -0,0 +1,286 @@
+import { normalizeProfile } from "./normalize";
+import { Profile } from "./types";
+
+// Sample profiles shared by the mock backend (mockApi.ts) and the tests.
+// The payloads are raw, as the scraping server sends them, and cover the
+// shapes it returns; the profiles are the same people after normalization,
+// as the UI sees them.
+
+// Every section present
+export const fullPayload = {
+  name: "Priya Raman",
+  location: "Bengaluru, Karnataka, India",
+  profile_url: "https://www.linkedin.com/in/priya-raman",
+  title: "Staff Software Engineer at Finlytics",
+  experiences: [
+    {
+      company: "Finlytics",
+      roles: [
+        {
+          title: "Staff Software Engineer",
+          dateRange: "Apr 2022 - Present · 2 yrs 6 mos",
+          location: "Bengaluru, India",
+          description: [
+            "Leads the payments platform team of 8 engineers.",
+            "Moved settlement processing to an event-driven design, cutting reconciliation time by 70%.",
+          ],
+        },
+        {
+          title: "Senior Software Engineer",
+          dateRange: "Jan 2019 - Mar 2022 · 3 yrs 3 mos",
+          location: "Bengaluru, India",
+          description: ["Built the merchant onboarding service."],
+        },
+      ],
+      skills: "Skills: Go · PostgreSQL · Kafka · +2 skills",
+    },
+    {
+      company: "Infosys",
+      title: "Software Engineer",
+      dateRange: "Jul 2015 - Dec 2018 · 3 yrs 6 mos",
+      location: "Mysuru, India",
+      description: ["Java services for a banking client."],
+      skills: "Skills: Java · Spring Boot",
+    },
+  ],
+  education: [
+    {
+      institution: "National Institute of Technology Karnataka",
+      degree: "Bachelor of Technology - BTech, Computer Science",
+      date: "2011 - 2015",
+      details: ["Grade: 8.9 CGPA"],
+    },
+  ],
+  evaluation: {
+    personal_information: {
+      score: 9,
+      explanation: "Complete profile with a clear headline and location.",
+    },
+    education: {
+      score: 8,
+      explanation: "Strong computer science degree from a top institute.",
+    },
+    work_experience: {
+      score: 9,
+      explanation:
+        "Nine years of backend work with a steady progression to staff level.",
+    },
+    overall_score: 8.7,
+    actionable_insights: [
+      "Good fit for senior backend and platform roles.",
+      "Ask about team leadership scope at Finlytics.",
+    ],
+  },
+};
+
+// Scores sent as strings, as some servers do
+export const stringScoresPayload = {
+  name: "Daniel Okafor",
+  location: "London, England, United Kingdom",
+  profile_url: "https://uk.linkedin.com/in/danielokafor/",
+  title: "Product Designer",
+  experiences: [
+    {
+      company: "Monzo",
+      title: "Senior Product Designer",
+      dateRange: "Sep 2021 - Present · 3 yrs 2 mos",
+      location: "London, United Kingdom · Hybrid",
+      description: ["Owns the savings and budgeting experience."],
+      skills: "Skills: Figma · User Research · Design Systems",
+    },
+    {
+      company: "Deliveroo",
+      title: "Product Designer",
+      dateRange: "Feb 2018 - Aug 2021 · 3 yrs 7 mos",
+      location: "London, United Kingdom",
+      description: [],
+    },
+  ],
+  education: [
+    {
+      institution: "University of the Arts London",
+      degree: "BA (Hons), Graphic Communication Design",
+      date: "2014 - 2017",
+      details: [],
+    },
+  ],
+  evaluation: {
+    personal_information: {
+      score: "7",
+      explanation: "Headline is a generic job title.",
+    },
+    education: {
+      score: "6",
+      explanation: "Design degree, no technical coursework listed.",
+    },
+    work_experience: {
+      score: "8",
+      explanation: "Relevant fintech product design experience.",
+    },
+    overall_score: "7.2",
+    actionable_insights: ["Review portfolio before a design interview."],
+  },
+};
+
+// Several roles at one company, nested under `roles`, and no evaluation yet
+export const multiRolePayload = {
+  name: "Mei Lin Chen",
+  location: "Singapore",
+  profile_url: "https://www.linkedin.com/in/meilinchen",
+  title: "Data Scientist at Grab",
+  experiences: [
+    {
+      company: "Grab",
+      roles: [
+        {
+          title: "Data Scientist II",
+          dateRange: "Mar 2023 - Present · 1 yr 8 mos",
+          description: ["Demand forecasting for GrabFood."],
+        },
+        {
+          title: "Data Scientist",
+          dateRange: "Jun 2020 - Feb 2023 · 2 yrs 9 mos",
+          description: [],
+        },
+      ],
+      skills: "Skills: Python · SQL · Machine Learning",
+    },
+  ],
+  education: [
+    {
+      institution: "National University of Singapore",
+      degree: "Master of Science - MS, Statistics",
+      date: "2018 - 2020",
+      details: [],
+    },
+  ],
+};
+
+// No location or education, and an evaluation without all its scores
+export const partialPayload = {
+  name: "Lucas Moreau",
+  profile_url: "https://fr.linkedin.com/in/lucas-moreau-dev",
+  title: "Freelance Full Stack Developer",
+  experiences: [
+    {
+      company: "Self-employed",
+      title: "Full Stack Developer",
+      dateRange: "Jan 2020 - Present · 4 yrs 10 mos",
+      description: ["React and Node.js projects for early-stage startups."],
+      skills: "Skills: React.js · Node.js · TypeScript · +4 skills",
+    },
+    {
+      company: "Capgemini",
+      title: "Développeur Java",
+      dateRange: "Sep 2016 - Dec 2019",
+      location: "Paris, Île-de-France, France",
+      description: [],
+    },
+  ],
+  education: [],
+  evaluation: {
+    personal_information: {
+      score: 5,
+      explanation: "No location and a sparse summary.",
+    },
+    education: { explanation: "No education listed." },
+    work_experience: {
+      score: 7,
+      explanation: "Broad full stack experience, mostly freelance.",
+    },
+    actionable_insights: [],
+  },
+};
+
+// Roles nested under one company next to a single-role one
+export const multiCompanyPayload = {
+  name: "Sarah Mitchell",
+  location: "Austin, Texas, United States",
+  profile_url: "https://www.linkedin.com/in/sarahmitchell-pm",
+  title: "Group Product Manager | B2B SaaS",
+  experiences: [
+    {
+      company: "HubSpot",
+      title: "Group Product Manager",
+      dateRange: "Aug 2020 - Present · 4 yrs 3 mos",
+      location: "Remote",
+      description: [
+        "Leads 4 product managers across the CRM integrations area.",
+      ],
+      skills: "Skills: Product Strategy · Roadmapping · SQL",
+    },
+    {
+      company: "Dell Technologies",
+      roles: [
+        {
+          title: "Senior Product Manager",
+          dateRange: "Jun 2017 - Jul 2020 · 3 yrs 2 mos",
+          location: "Round Rock, Texas",
+          description: [],
+        },
+        {
+          title: "Business Analyst",
+          dateRange: "Jun 2014 - May 2017 · 3 yrs",
+          location: "Round Rock, Texas",
+          description: [],
+        },
+      ],
+    },
+  ],
+  education: [
+    {
+      institution: "The University of Texas at Austin",
+      degree: "Master of Business Administration - MBA",
+      date: "2012 - 2014",
+      details: [],
+    },
+    {
+      institution: "Texas A&M University",
+      degree: "Bachelor of Science - BS, Industrial Engineering",
+      date: "2008 - 2012",
+      details: ["Tau Beta Pi"],
+    },
+  ],
+  evaluation: {
+    personal_information: {
+      score: 8,
+      explanation: "Clear headline, location and focus area.",
+    },
+    education: {
+      score: 9,
+      explanation: "MBA and engineering degree from strong programs.",
+    },
+    work_experience: {
+      score: 8,
+      explanation: "Ten years in product with people management.",
+    },
+    overall_score: 8.3,
+    actionable_insights: [
+      "Strong candidate for product leadership roles.",
+      "Confirm willingness to relocate, currently remote.",
+    ],
+  },
+};
+
+export const emptyPayload = {};
+
+export const DEMO_PAYLOADS = [
+  fullPayload,
+  stringScoresPayload,
+  multiRolePayload,
+  partialPayload,
+  multiCompanyPayload,
+];
+
+export const fullProfile: Profile = normalizeProfile(fullPayload);
+export const secondProfile: Profile = normalizeProfile(stringScoresPayload);
+export const thirdProfile: Profile = normalizeProfile(multiRolePayload);
+export const partialProfile: Profile = normalizeProfile(partialPayload);
+
+// Numbered copies, for filling the compare set
+export const makeProfiles = (count: number): Profile[] =>
+  Array.from({ length: count }, (_, index) => ({
+    ...fullProfile,
+    name: `Candidate ${index + 1}`,
+    profile_url: `https://www.linkedin.com/in/candidate-${index + 1}`,
+  }));
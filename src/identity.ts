@@ -0,0 +1,156 @@
+import { Profile, ProfileSource } from "./types";
+
+// Identity resolution: the same person scraped from different searches comes
+// back with slightly different URLs (tracking params, locale subdomains,
+// trailing slashes), so profiles are matched on a normalized URL and, when
+// there is no URL, on name + current company.
+
+// Canonical form https://www.linkedin.com/in/<slug>. Returns undefined for
+// values that are not URLs.
+export const normalizeProfileUrl = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  let url: URL;
+  try {
+    url = new URL(
+      /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    );
+  } catch {
+    return undefined;
+  }
+
+  let host = url.hostname.toLowerCase();
+  // de.linkedin.com, m.linkedin.com, linkedin.com... -> www.linkedin.com
+  if (/(^|\.)linkedin\.com$/.test(host)) host = "www.linkedin.com";
+
+  let path = url.pathname;
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // keep the raw path when it is not valid percent-encoding
+  }
+  path = path.toLowerCase().replace(/\/+$/, "");
+  // /in/<slug>/details/experience -> /in/<slug>
+  const member = path.match(/^\/in\/[^/]+/);
+  if (host === "www.linkedin.com" && member) path = member[0];
+
+  return `https://${host}${path}`;
+};
+
+const normalizeText = (value: string) =>
+  value.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Stable key for a profile, or undefined when there is nothing to match on
+export const getProfileIdentity = (profile: Profile): string | undefined => {
+  const url = profile.profile_url && normalizeProfileUrl(profile.profile_url);
+  if (url) return url;
+
+  const company = profile.experiences?.[0]?.company;
+  if (profile.name && company) {
+    return `name:${normalizeText(profile.name)}|${normalizeText(company)}`;
+  }
+  return undefined;
+};
+
+const mergeSources = (a: ProfileSource[] = [], b: ProfileSource[] = []) => {
+  const seen = new Set<string>();
+  return [...a, ...b].filter((source) => {
+    const key = `${source.searchUrl}\n${source.scrapedAt}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Merges two records of the same person. Fields of the newer record win, but
+// blanks never overwrite data, and the source searches of both are kept.
+export const mergeProfile = (older: Profile, newer: Profile): Profile => {
+  const merged: Profile = { ...older };
+  (Object.keys(newer) as (keyof Profile)[]).forEach((key) => {
+    const value = newer[key];
+    const isBlank =
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0);
+    if (!isBlank) Object.assign(merged, { [key]: value });
+  });
+  merged.sources = mergeSources(older.sources, newer.sources);
+  return merged;
+};
+
+// Collapses duplicates into one record each, keeping first-seen order
+export const dedupeProfiles = (profiles: Profile[]): Profile[] => {
+  const result: Profile[] = [];
+  const positions = new Map<string, number>();
+  profiles.forEach((profile) => {
+    const identity = getProfileIdentity(profile);
+    const position =
+      identity === undefined ? undefined : positions.get(identity);
+    if (position === undefined) {
+      if (identity !== undefined) positions.set(identity, result.length);
+      result.push(profile);
+    } else {
+      result[position] = mergeProfile(result[position], profile);
+    }
+  });
+  return result;
+};
+
+// What we know about a person from earlier runs
+export interface PriorSighting {
+  lastSeenAt: string; // ISO timestamp of the most recent earlier scrape
+  searches: string[];
+}
+
+export type PriorSightings = Map<string, PriorSighting>;
+
+interface StoredRun {
+  id: number;
+  searchUrl: string;
+  createdAt: string;
+  profiles: Profile[];
+}
+
+// Indexes every profile of the stored runs that came before `current` (all
+// of them while a new run is being scraped and not yet stored)
+export const buildPriorSightings = (
+  runs: StoredRun[],
+  current: { id: number; createdAt: string } | null
+): PriorSightings => {
+  const sightings: PriorSightings = new Map();
+  runs.forEach((run) => {
+    if (
+      current &&
+      (run.id === current.id || run.createdAt > current.createdAt)
+    ) {
+      return;
+    }
+    run.profiles.forEach((profile) => {
+      const identity = getProfileIdentity(profile);
+      if (identity === undefined) return;
+      const sources = profile.sources?.length
+        ? profile.sources
+        : [{ searchUrl: run.searchUrl, scrapedAt: run.createdAt }];
+      const sighting = sightings.get(identity) || {
+        lastSeenAt: "",
+        searches: [],
+      };
+      sources.forEach(({ searchUrl, scrapedAt }) => {
+        if (scrapedAt > sighting.lastSeenAt) sighting.lastSeenAt = scrapedAt;
+        if (searchUrl && !sighting.searches.includes(searchUrl)) {
+          sighting.searches.push(searchUrl);
+        }
+      });
+      sightings.set(identity, sighting);
+    });
+  });
+  return sightings;
+};
+
+export const getPriorSighting = (
+  sightings: PriorSightings,
+  profile: Profile
+): PriorSighting | undefined => {
+  const identity = getProfileIdentity(profile);
+  return identity === undefined ? undefined : sightings.get(identity);
+};
@@ -0,0 +1,218 @@
+import * as XLSX from "xlsx";
+import { Education, Experience, Profile, Role } from "./types";
+import { validateProfile } from "./schema";
+import { normalizeProfile } from "./normalize";
+
+// Loads profiles back from the app's own exports: the JSON export (or any
+// plain JSON array of profiles, or a scrape_by_url response) and the Excel
+// workbook written by exportToExcel. Invalid profiles are skipped and every
+// problem is reported with the row or item it came from.
+
+export interface ImportResult {
+  profiles: Profile[];
+  issues: string[];
+  skipped: number;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const keepValid = (
+  candidates: { profile: unknown; label: string }[]
+): ImportResult => {
+  const profiles: Profile[] = [];
+  const issues: string[] = [];
+  candidates.forEach(({ profile, label }) => {
+    const problems = validateProfile(profile, "profile");
+    if (problems.length > 0) {
+      issues.push(...problems.map((problem) => `${label}: ${problem}`));
+    } else {
+      profiles.push(normalizeProfile(profile));
+    }
+  });
+  return { profiles, issues, skipped: candidates.length - profiles.length };
+};
+
+// JSON
+
+export const importJson = (text: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("File is not valid JSON");
+  }
+
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (typeof data === "object" && data !== null) {
+    const { profile, profiles } = data as Record<string, unknown>;
+    const found = profiles ?? profile;
+    if (found === undefined) {
+      throw new ImportError("JSON does not contain any profiles");
+    }
+    items = Array.isArray(found) ? found : [found];
+  } else {
+    throw new ImportError("JSON must be a list of profiles");
+  }
+
+  return keepValid(
+    items.map((profile, index) => ({ profile, label: `Item ${index + 1}` }))
+  );
+};
+
+// Excel
+
+type Row = Record<string, unknown>;
+
+const readSheet = (workbook: XLSX.WorkBook, name: string): Row[] => {
+  const sheet = workbook.Sheets[name];
+  return sheet ? XLSX.utils.sheet_to_json<Row>(sheet, { defval: "" }) : [];
+};
+
+// Spreadsheet row number of a data row (row 1 is the header)
+const rowLabel = (sheet: string, index: number) => `${sheet} row ${index + 2}`;
+
+const text = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+const optionalText = (value: unknown) => text(value) || undefined;
+
+const lines = (value: unknown) =>
+  text(value)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// Empty cells stay empty rather than becoming a score of 0
+const score = (value: unknown) =>
+  text(value) === "" ? undefined : Number(value);
+
+export const importWorkbook = (data: ArrayBuffer): ImportResult => {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: "array" });
+  } catch {
+    throw new ImportError("File is not a readable Excel workbook");
+  }
+  if (!workbook.Sheets.Profiles) {
+    throw new ImportError(
+      'Workbook has no "Profiles" sheet, was it exported from this app?'
+    );
+  }
+
+  const issues: string[] = [];
+  const byId = new Map<string, { profile: Profile; label: string }>();
+
+  readSheet(workbook, "Profiles").forEach((row, index) => {
+    const id = text(row.profile_id);
+    const label = rowLabel("Profiles", index);
+    if (!id) {
+      issues.push(`${label}: profile_id is missing`);
+      return;
+    }
+    if (byId.has(id)) {
+      issues.push(`${label}: duplicate profile_id ${id}`);
+      return;
+    }
+    byId.set(id, {
+      label,
+      profile: {
+        name: optionalText(row.name),
+        profile_url: optionalText(row.profile_url),
+        title: optionalText(row.title),
+        location: optionalText(row.location),
+      },
+    });
+  });
+
+  // Looks up the profile a detail row belongs to, reporting orphans
+  const ownerOf = (row: Row, label: string) => {
+    const owner = byId.get(text(row.profile_id));
+    if (!owner) issues.push(`${label}: unknown profile_id "${row.profile_id}"`);
+    return owner?.profile;
+  };
+
+  // Experience rows are one per role; rows sharing an experience_index are
+  // roles at the same company
+  const experiences = new Map<Profile, Map<string, Row[]>>();
+  readSheet(workbook, "Experience").forEach((row, index) => {
+    const profile = ownerOf(row, rowLabel("Experience", index));
+    if (!profile) return;
+    const groups = experiences.get(profile) || new Map<string, Row[]>();
+    const key = text(row.experience_index) || `row-${index}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+    experiences.set(profile, groups);
+  });
+  experiences.forEach((groups, profile) => {
+    profile.experiences = [...groups.values()].map((rows): Experience => {
+      const roles: Role[] = rows.map((row) => ({
+        title: optionalText(row.title),
+        dateRange: optionalText(row.date_range),
+        location: optionalText(row.location),
+        description: lines(row.description),
+      }));
+      const base = {
+        company: text(rows[0].company),
+        skills: optionalText(rows[0].skills),
+      };
+      return roles.length > 1 ? { ...base, roles } : { ...base, ...roles[0] };
+    });
+  });
+
+  readSheet(workbook, "Education").forEach((row, index) => {
+    const profile = ownerOf(row, rowLabel("Education", index));
+    if (!profile) return;
+    const education: Education = {
+      institution: text(row.institution),
+      degree: text(row.degree),
+      date: text(row.date),
+      details: lines(row.details),
+    };
+    profile.education = [...(profile.education || []), education];
+  });
+
+  readSheet(workbook, "Evaluation").forEach((row, index) => {
+    const label = rowLabel("Evaluation", index);
+    const profile = ownerOf(row, label);
+    if (!profile) return;
+    if (profile.evaluation) {
+      issues.push(`${label}: second evaluation for the same profile ignored`);
+      return;
+    }
+    profile.evaluation = {
+      personal_information: {
+        score: score(row.personal_information_score),
+        explanation: text(row.personal_information_explanation),
+      },
+      education: {
+        score: score(row.education_score),
+        explanation: text(row.education_explanation),
+      },
+      work_experience: {
+        score: score(row.work_experience_score),
+        explanation: text(row.work_experience_explanation),
+      },
+      overall_score: score(row.overall_score),
+      actionable_insights: lines(row.actionable_insights),
+    };
+  });
+
+  const result = keepValid([...byId.values()]);
+  return { ...result, issues: [...issues, ...result.issues] };
+};
+
+export const importFile = async (file: File): Promise<ImportResult> => {
+  if (/\.json$/i.test(file.name) || file.type === "application/json") {
+    return importJson(await file.text());
+  }
+  if (/\.(xlsx|xls)$/i.test(file.name)) {
+    return importWorkbook(await file.arrayBuffer());
+  }
+  throw new ImportError("Unsupported file type, choose a .json or .xlsx file");
+};
@@ -0,0 +1,210 @@
+import { DEMO_PAYLOADS } from "./fixtures";
+
+// In-browser stand-in for the scraping server, enabled with VITE_MOCK_API=true
+// (e.g. `VITE_MOCK_API=true npm run dev`). requestJson loads this module
+// on demand and sends its requests here instead of over the network, so the
+// UI, including response parsing and error handling, can be developed and
+// demoed without a LinkedIn cookie.
+//
+// Builds only include it when made with the flag: `VITE_MOCK_API=true npm
+// run build` gives a demo build that `npm run preview` serves. Other builds
+// get an empty stub in its place, see vite.config.ts.
+//
+// The search URL picks the scenario, so each one can be triggered from the
+// form:
+//   ...?mock=error      the server reports a scrape failure ({ error })
+//   ...?mock=http500    the server answers 500
+//   ...?mock=malformed  a profile in the response is not an object
+//   ...?mock=slow       slow responses and a slowly progressing job
+//   ...?mock=legacy     no jobs endpoint, a single scrape_by_url call
+// Anything else scrapes the demo profiles from fixtures.ts, up to the limit.
+
+type MockScenario =
+  | "ok"
+  | "error"
+  | "http500"
+  | "malformed"
+  | "slow"
+  | "legacy";
+
+const MOCK_SCENARIOS: MockScenario[] = [
+  "error",
+  "http500",
+  "malformed",
+  "slow",
+  "legacy",
+];
+
+const getScenario = (searchUrl: string): MockScenario => {
+  try {
+    const mode = new URL(searchUrl).searchParams.get("mock");
+    return MOCK_SCENARIOS.find((scenario) => scenario === mode) || "ok";
+  } catch {
+    return "ok";
+  }
+};
+
+// Repeats the demo profiles under numbered URLs up to the limit. The same
+// search always returns the same people, so batch runs overlap like real
+// ones do.
+const getMockProfiles = (limit: number) =>
+  Array.from({ length: Math.max(limit, 1) }, (_, index) => {
+    const base = DEMO_PAYLOADS[index % DEMO_PAYLOADS.length];
+    const round = Math.floor(index / DEMO_PAYLOADS.length);
+    return round === 0
+      ? base
+      : {
+          ...base,
+          name: `${base.name} (${round + 1})`,
+          profile_url: `${base.profile_url.replace(/\/$/, "")}-${round + 1}`,
+        };
+  });
+
+// Jobs
+
+interface MockJob {
+  job_id: string;
+  scenario: MockScenario;
+  profiles: unknown[];
+  completed: number;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+}
+
+const jobs = new Map<string, MockJob>();
+let nextJobId = 1;
+
+const toJobResponse = (job: MockJob) => ({
+  job_id: job.job_id,
+  status: job.status,
+  total: job.profiles.length,
+  completed: job.completed,
+  profiles: job.profiles.slice(0, job.completed),
+  error:
+    job.status === "failed" ? "LinkedIn session cookie has expired" : undefined,
+});
+
+// Every poll scrapes a few more profiles. The error scenario fails halfway.
+const advanceJob = (job: MockJob) => {
+  if (job.status === "queued") {
+    job.status = "running";
+    return;
+  }
+  if (job.status !== "running") return;
+  const step = job.scenario === "slow" ? 1 : 3;
+  job.completed = Math.min(job.completed + step, job.profiles.length);
+  if (job.scenario === "error" && job.completed >= job.profiles.length / 2) {
+    job.status = "failed";
+  } else if (job.completed === job.profiles.length) {
+    job.status = "completed";
+  }
+};
+
+// Server
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The request was aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const notFound = () => json({ detail: "Not Found" }, 404);
+
+interface MockRequestBody {
+  url?: string;
+  limit?: number;
+}
+
+const readBody = (init?: RequestInit): MockRequestBody => {
+  try {
+    return JSON.parse(String(init?.body || "{}"));
+  } catch {
+    return {};
+  }
+};
+
+const handleScrapeByUrl = ({ url = "", limit = 1 }: MockRequestBody) => {
+  const scenario = getScenario(url);
+  switch (scenario) {
+    case "error":
+      return json({ error: "LinkedIn session cookie has expired" });
+    case "http500":
+      return json({ detail: "Internal Server Error" }, 500);
+    case "malformed":
+      return json({
+        profile: [...getMockProfiles(limit - 1), "not a profile"],
+      });
+    default:
+      return json({ profile: getMockProfiles(limit) });
+  }
+};
+
+const handleCreateJob = ({ url = "", limit = 1 }: MockRequestBody) => {
+  const scenario = getScenario(url);
+  // Old servers only have scrape_by_url; the client falls back to it on 404
+  if (scenario === "legacy") return notFound();
+  if (scenario === "http500") {
+    return json({ detail: "Internal Server Error" }, 500);
+  }
+  const job: MockJob = {
+    job_id: `mock-${nextJobId++}`,
+    scenario,
+    profiles:
+      scenario === "malformed"
+        ? [...getMockProfiles(limit - 1), "not a profile"]
+        : getMockProfiles(limit),
+    completed: 0,
+    status: "queued",
+  };
+  jobs.set(job.job_id, job);
+  return json(toJobResponse(job));
+};
+
+// Drop-in replacement for fetch, serving the scraping server's endpoints
+export const mockFetch = async (
+  input: string,
+  init?: RequestInit
+): Promise<Response> => {
+  const method = init?.method || "GET";
+  const { pathname } = new URL(input, window.location.origin);
+  const body = readBody(init);
+  const slow =
+    getScenario(body.url || "") === "slow" ||
+    jobs.get(decodeURIComponent(pathname.split("/").pop() || ""))?.scenario ===
+      "slow";
+  await delay(slow ? 2500 : 400, init?.signal);
+
+  if (method === "POST" && pathname.endsWith("/linkedin/scrape_by_url")) {
+    return handleScrapeByUrl(body);
+  }
+  if (method === "POST" && pathname.endsWith("/linkedin/scrape_jobs")) {
+    return handleCreateJob(body);
+  }
+  const jobMatch = pathname.match(/\/linkedin\/scrape_jobs\/([^/]+)$/);
+  const job = jobMatch && jobs.get(decodeURIComponent(jobMatch[1]));
+  if (!job) return notFound();
+  if (method === "GET") {
+    advanceJob(job);
+    return json(toJobResponse(job));
+  }
+  if (method === "DELETE") {
+    if (job.status === "queued" || job.status === "running") {
+      job.status = "cancelled";
+    }
+    return json(toJobResponse(job));
+  }
+  return json({ detail: "Method Not Allowed" }, 405);
+};
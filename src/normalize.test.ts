@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { describeMissingSections, normalizeProfile } from "./normalize";
+import {
+  emptyPayload,
+  fullPayload,
+  multiRolePayload,
+  partialPayload,
+} from "./fixtures";
+
+describe("normalizeProfile", () => {
+  it("keeps a full profile as is, without missing sections", () => {
+    const profile = normalizeProfile(fullPayload);
+    expect(profile.missingSections).toBeUndefined();
+    expect(profile.name).toBe("Priya Raman");
+    expect(profile.experiences).toHaveLength(2);
+    expect(profile.evaluation?.overall_score).toBe(8.7);
+  });
+
+  it("flags the sections a partial profile lacks", () => {
+    const profile = normalizeProfile(partialPayload);
+    expect(profile.missingSections).toEqual([
+      "location",
+      "education",
+      "scores",
+      "insights",
+    ]);
+    expect(profile.education).toEqual([]);
+    expect(profile.evaluation?.education.score).toBeUndefined();
+    expect(describeMissingSections(profile)).toEqual([
+      "Location",
+      "Education",
+      "Evaluation scores",
+      "Actionable insights",
+    ]);
+  });
+
+  it("keeps every role of a multi-role experience", () => {
+    const profile = normalizeProfile(multiRolePayload);
+    const [experience] = profile.experiences!;
+    expect(experience.company).toBe("Grab");
+    expect(experience.roles?.map((role) => role.title)).toEqual([
+      "Data Scientist II",
+      "Data Scientist",
+    ]);
+    expect(experience.roles?.[1].description).toEqual([]);
+    expect(profile.missingSections).toEqual(["evaluation"]);
+  });
+
+  it("flags every section of an empty payload", () => {
+    expect(normalizeProfile(emptyPayload).missingSections).toEqual([
+      "name",
+      "profile_url",
+      "title",
+      "location",
+      "experiences",
+      "education",
+      "evaluation",
+    ]);
+  });
+
+  it("treats a value that isn't an object as an empty profile", () => {
+    expect(normalizeProfile(null).missingSections).toHaveLength(7);
+  });
+
+  it("reads scores sent as numeric strings", () => {
+    const profile = normalizeProfile({
+      ...fullPayload,
+      evaluation: {
+        ...fullPayload.evaluation,
+        personal_information: { score: "7", explanation: "" },
+        overall_score: "7.2",
+      },
+    });
+    expect(profile.evaluation?.personal_information.score).toBe(7);
+    expect(profile.evaluation?.overall_score).toBe(7.2);
+    expect(profile.missingSections).toBeUndefined();
+  });
+
+  it("flags scores that are missing or not numbers", () => {
+    const profile = normalizeProfile({
+      ...fullPayload,
+      evaluation: { ...fullPayload.evaluation, overall_score: "n/a" },
+    });
+    expect(profile.evaluation?.overall_score).toBeUndefined();
+    expect(profile.missingSections).toEqual(["scores"]);
+  });
+
+  it("copes with a null score category", () => {
+    const profile = normalizeProfile({
+      ...fullPayload,
+      evaluation: { ...fullPayload.evaluation, personal_information: null },
+    });
+    expect(profile.evaluation?.personal_information).toEqual({
+      score: undefined,
+      explanation: "",
+    });
+    expect(profile.missingSections).toEqual(["scores"]);
+  });
+
+  it("drops list items that aren't objects or strings", () => {
+    const profile = normalizeProfile({
+      ...fullPayload,
+      experiences: [null, "Acme", 42, ...fullPayload.experiences],
+      education: ["NITK", fullPayload.education[0]],
+      evaluation: {
+        ...fullPayload.evaluation,
+        actionable_insights: ["Call back", 3, null],
+      },
+    });
+    expect(profile.experiences?.map((exp) => exp.company)).toEqual([
+      "Finlytics",
+      "Infosys",
+    ]);
+    expect(profile.education).toHaveLength(1);
+    expect(profile.evaluation?.actionable_insights).toEqual(["Call back"]);
+    expect(profile.missingSections).toBeUndefined();
+  });
+
+  it("flags lists that only held invalid items", () => {
+    const profile = normalizeProfile({
+      ...fullPayload,
+      experiences: ["Acme"],
+      education: "NITK",
+    });
+    expect(profile.missingSections).toEqual(["experiences", "education"]);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  Education,
+  Evaluation,
+  EvaluationScore,
+  Experience,
+  Profile,
+  ProfileSection,
+  Role,
+} from "./types";
+
+// Turns whatever the server (or an old stored run) sent into the Profile
+// shape the UI relies on. Malformed fields are dropped, lists and texts get
+// defaults, and every gap is recorded in `missingSections` so the UI can
+// flag the profile as partial instead of crashing on it.
+
+export const SECTION_LABELS: Record<ProfileSection, string> = {
+  name: "Name",
+  profile_url: "Profile URL",
+  title: "Title",
+  location: "Location",
+  experiences: "Experience",
+  education: "Education",
+  evaluation: "Evaluation",
+  scores: "Evaluation scores",
+  insights: "Actionable insights",
+};
+
+type UnknownObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is UnknownObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+const textList = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+const objectList = (value: unknown) =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+// Scores occasionally arrive as numeric strings
+const score = (value: unknown) => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+};
+
+const normalizeRole = (value: UnknownObject): Role => ({
+  title: text(value.title),
+  dateRange: text(value.dateRange),
+  location: text(value.location),
+  description: textList(value.description),
+});
+
+const normalizeExperience = (value: UnknownObject): Experience => {
+  const roles = objectList(value.roles).map(normalizeRole);
+  return {
+    company: text(value.company) || "",
+    ...(roles.length > 0 ? { roles } : {}),
+    title: text(value.title),
+    dateRange: text(value.dateRange),
+    location: text(value.location),
+    description: textList(value.description),
+    skills: text(value.skills),
+  };
+};
+
+const normalizeEducation = (value: UnknownObject): Education => ({
+  institution: text(value.institution) || "",
+  degree: text(value.degree) || "",
+  date: text(value.date) || "",
+  details: textList(value.details),
+});
+
+const normalizeScore = (value: unknown): EvaluationScore => {
+  const category = isObject(value) ? value : {};
+  return {
+    score: score(category.score),
+    explanation: text(category.explanation) || "",
+  };
+};
+
+const normalizeEvaluation = (value: UnknownObject): Evaluation => ({
+  personal_information: normalizeScore(value.personal_information),
+  education: normalizeScore(value.education),
+  work_experience: normalizeScore(value.work_experience),
+  overall_score: score(value.overall_score),
+  actionable_insights: textList(value.actionable_insights),
+});
+
+export const normalizeProfile = (value: unknown): Profile => {
+  const raw = isObject(value) ? value : {};
+  const missing: ProfileSection[] = [];
+
+  const profile: Profile = {
+    name: text(raw.name),
+    location: text(raw.location),
+    profile_url: text(raw.profile_url),
+    title: text(raw.title),
+    experiences: objectList(raw.experiences).map(normalizeExperience),
+    education: objectList(raw.education).map(normalizeEducation),
+    evaluation: isObject(raw.evaluation)
+      ? normalizeEvaluation(raw.evaluation)
+      : undefined,
+    ...(Array.isArray(raw.sources) ? { sources: raw.sources } : {}),
+  };
+
+  (["name", "profile_url", "title", "location"] as const).forEach((key) => {
+    if (!profile[key]) missing.push(key);
+  });
+  if (profile.experiences!.length === 0) missing.push("experiences");
+  if (profile.education!.length === 0) missing.push("education");
+  if (!profile.evaluation) {
+    missing.push("evaluation");
+  } else {
+    const { personal_information, education, work_experience } =
+      profile.evaluation;
+    if (
+      [personal_information, education, work_experience].some(
+        (category) => category.score === undefined
+      ) ||
+      profile.evaluation.overall_score === undefined
+    ) {
+      missing.push("scores");
+    }
+    if (profile.evaluation.actionable_insights.length === 0) {
+      missing.push("insights");
+    }
+  }
+
+  return missing.length > 0
+    ? { ...profile, missingSections: missing }
+    : profile;
+};
+
+export const normalizeProfiles = (values: unknown[]) =>
+  values.map(normalizeProfile);
+
+export const describeMissingSections = (profile: Profile) =>
+  (profile.missingSections || []).map((section) => SECTION_LABELS[section]);
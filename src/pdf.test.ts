@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { buildProfilesPdf } from "./pdf";
+import { fullProfile, secondProfile } from "./fixtures";
+
+// Page content streams are not compressed, so the text can be read back
+const pdfText = (profiles = [fullProfile], triage = {}) =>
+  buildProfilesPdf(profiles, triage).output();
+
+describe("buildProfilesPdf", () => {
+  it("writes a PDF with the header, experience, education and evaluation", () => {
+    const text = pdfText();
+    expect(text.startsWith("%PDF-")).toBe(true);
+    for (const expected of [
+      "Priya Raman",
+      "Overall score 8.7",
+      "Staff Software Engineer",
+      "Skills: Go, PostgreSQL, Kafka",
+      "National Institute of Technology Karnataka",
+      "Good fit for senior backend and platform roles.",
+    ]) {
+      expect(text).toContain(expected);
+    }
+  });
+
+  it("starts every profile on a new page", () => {
+    const doc = buildProfilesPdf([fullProfile, secondProfile], {});
+    expect(doc.getNumberOfPages()).toBe(2);
+  });
+
+  it("flows a long profile onto further pages", () => {
+    const longProfile = {
+      ...fullProfile,
+      experiences: Array.from({ length: 40 }, (_, index) => ({
+        company: `Company ${index + 1}`,
+        title: "Engineer",
+        description: ["Built and ran services."],
+      })),
+    };
+    expect(
+      buildProfilesPdf([longProfile], {}).getNumberOfPages()
+    ).toBeGreaterThan(1);
+  });
+
+  it("includes the triage status, tags and notes", () => {
+    const text = pdfText([fullProfile], {
+      [fullProfile.profile_url!]: {
+        status: "shortlisted",
+        tags: ["backend"],
+        notes: "Call on Monday",
+      },
+    });
+    expect(text).toContain("Shortlisted · backend");
+    expect(text).toContain("Call on Monday");
+  });
+});
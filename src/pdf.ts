@@ -0,0 +1,212 @@
+import { jsPDF } from "jspdf";
+import { Profile } from "./types";
+import { Triage, TriageMap, getTriage } from "./triage";
+import { flattenRoles, parseSkills } from "./profile";
+import { SCORE_CATEGORIES, getCategoryScore } from "./scoring";
+import { formatDuration, getCareerSummary } from "./timeline";
+import { downloadFile } from "./download";
+
+// Candidate one-pagers as a PDF built in the browser, with the same content
+// as ProfileOnePager. Each profile starts on a new A4 page and flows onto
+// further pages when it doesn't fit.
+
+const MARGIN = 15; // mm
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.3;
+
+const COLORS = {
+  text: "#111827",
+  muted: "#4b5563",
+  rule: "#d1d5db",
+};
+
+interface TextStyle {
+  size?: number; // pt
+  bold?: boolean;
+  color?: string;
+  indent?: number; // mm
+}
+
+// Writes text top to bottom, wrapping lines and adding pages as needed
+const createWriter = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const setStyle = ({ size = 10, bold = false, color = COLORS.text }) => {
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+  };
+
+  const text = (value: string, style: TextStyle = {}) => {
+    const { size = 10, indent = 0 } = style;
+    setStyle(style);
+    const lineHeight = size * PT_TO_MM * LINE_SPACING;
+    const lines: string[] = doc.splitTextToSize(
+      value,
+      pageWidth - 2 * MARGIN - indent
+    );
+    lines.forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y, { baseline: "top" });
+      y += lineHeight;
+    });
+  };
+
+  // Short text at the right edge, level with the next line of text
+  const aside = (value: string, style: TextStyle = {}) => {
+    setStyle(style);
+    doc.text(value, pageWidth - MARGIN, y, { baseline: "top", align: "right" });
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  const heading = (title: string) => {
+    space(3);
+    ensureSpace(10);
+    text(title, { size: 12, bold: true });
+    doc.setDrawColor(COLORS.rule);
+    doc.line(MARGIN, y, pageWidth - MARGIN, y);
+    space(2);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  return { text, aside, heading, space, newPage };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const writeProfile = (write: Writer, profile: Profile, triage: Triage) => {
+  const { totalMonths } = getCareerSummary(profile);
+  const evaluation = profile.evaluation;
+
+  // Header
+  if (evaluation?.overall_score !== undefined) {
+    write.aside(`Overall score ${evaluation.overall_score}`, {
+      size: 11,
+      bold: true,
+    });
+  }
+  write.text(profile.name || "Unnamed profile", { size: 18, bold: true });
+  if (profile.title) write.text(profile.title, { size: 12 });
+  const facts = [
+    profile.location,
+    profile.experiences?.[0]?.company,
+    totalMonths ? `${formatDuration(totalMonths)} experience` : undefined,
+  ].filter(Boolean);
+  if (facts.length > 0) {
+    write.text(facts.join(" · "), { color: COLORS.muted });
+  }
+  if (profile.profile_url) {
+    write.text(profile.profile_url, { size: 8, color: COLORS.muted });
+  }
+  const labels = [
+    triage.status === "shortlisted" ? "Shortlisted" : triage.status,
+    ...(triage.tags || []),
+  ].filter(Boolean);
+  if (labels.length > 0) {
+    write.text(labels.join(" · "), { size: 8, color: COLORS.muted });
+  }
+
+  // Experience
+  if ((profile.experiences || []).length > 0) {
+    write.heading("Experience");
+    (profile.experiences || []).forEach((exp) => {
+      write.text(exp.company, { bold: true });
+      flattenRoles(exp).forEach((role) => {
+        write.text([role.title, role.dateRange].filter(Boolean).join(" · "), {
+          indent: 4,
+        });
+        (role.description || []).forEach((desc) =>
+          write.text(`• ${desc}`, { size: 8, color: COLORS.muted, indent: 6 })
+        );
+      });
+      const skills = parseSkills(exp.skills);
+      if (skills.length > 0) {
+        write.text(`Skills: ${skills.join(", ")}`, {
+          size: 8,
+          color: COLORS.muted,
+          indent: 4,
+        });
+      }
+      write.space(1.5);
+    });
+  }
+
+  // Education
+  if ((profile.education || []).length > 0) {
+    write.heading("Education");
+    (profile.education || []).forEach((edu) =>
+      write.text(
+        [edu.institution, edu.degree, edu.date].filter(Boolean).join(" · ")
+      )
+    );
+  }
+
+  // Evaluation
+  if (evaluation) {
+    write.heading("Evaluation");
+    SCORE_CATEGORIES.forEach(({ key, label }) => {
+      write.text(`${label}: ${getCategoryScore(profile, key) ?? "–"}`, {
+        size: 9,
+        bold: true,
+      });
+      if (evaluation[key]?.explanation) {
+        write.text(evaluation[key].explanation, {
+          size: 8,
+          color: COLORS.muted,
+          indent: 4,
+        });
+      }
+    });
+    if ((evaluation.actionable_insights || []).length > 0) {
+      write.space(1.5);
+      write.text("Actionable Insights", { size: 9, bold: true });
+      (evaluation.actionable_insights || []).forEach((insight) =>
+        write.text(`• ${insight}`, { size: 8, color: COLORS.muted, indent: 2 })
+      );
+    }
+  }
+
+  // Notes
+  if (triage.notes?.trim()) {
+    write.heading("Notes");
+    write.text(triage.notes.trim(), { size: 8 });
+  }
+};
+
+export const buildProfilesPdf = (profiles: Profile[], triage: TriageMap) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const write = createWriter(doc);
+  profiles.forEach((profile, index) => {
+    if (index > 0) write.newPage();
+    writeProfile(write, profile, getTriage(triage, profile));
+  });
+  return doc;
+};
+
+// Saves the one-pagers as `<fileName>.pdf`
+export const downloadProfilesPdf = (
+  profiles: Profile[],
+  triage: TriageMap,
+  fileName: string
+) =>
+  downloadFile(
+    `${fileName}.pdf`,
+    buildProfilesPdf(profiles, triage).output("blob"),
+    "application/pdf"
+  );
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { Profile } from "./types";
+
+// Printing renders the requested profiles as one-pagers (hidden on screen)
+// and opens the browser's print dialog. The PDF download is built
+// separately, in pdf.ts.
+
+export interface PrintJob {
+  profiles: Profile[];
+  // Browsers suggest the document title as the file name for Save as PDF
+  title: string;
+}
+
+export const usePrintJob = () => {
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+
+  useEffect(() => {
+    if (!printJob) return;
+    const previousTitle = document.title;
+    document.title = printJob.title;
+    const done = () => setPrintJob(null);
+    window.addEventListener("afterprint", done);
+    // Give React a tick to render the one-pagers before the dialog opens
+    const timer = window.setTimeout(() => window.print(), 0);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("afterprint", done);
+      document.title = previousTitle;
+    };
+  }, [printJob]);
+
+  const printProfiles = (profiles: Profile[], title: string) =>
+    setPrintJob({ profiles, title });
+
+  return { printJob, printProfiles };
+};
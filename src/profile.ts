@@ -0,0 +1,54 @@
+import { Experience, Profile, Role } from "./types";
+
+// An experience either lists several roles at one company or is itself a
+// single role, so normalize both shapes into a flat list of roles
+export const flattenRoles = (exp: Experience): Role[] =>
+  exp.roles && exp.roles.length > 0
+    ? exp.roles
+    : [
+        {
+          title: exp.title,
+          dateRange: exp.dateRange,
+          location: exp.location,
+          description: exp.description,
+        },
+      ];
+
+// Comparison key for a skill, so "React.js", "ReactJS" and "react" count
+// as the same skill
+export const skillKey = (skill: string) =>
+  skill
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/(.+?)\.?js$/, "$1");
+
+// De-duplication by skillKey that keeps the first spelling seen
+const uniqueSkills = (skills: string[]) => {
+  const seen = new Set<string>();
+  return skills.filter((skill) => {
+    const key = skillKey(skill);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Experience.skills is free text as shown on LinkedIn, e.g.
+// "Skills: React.js · Node.js · +3 skills", so split it into skill names
+export const parseSkills = (skills: string | undefined): string[] =>
+  uniqueSkills(
+    (skills || "")
+      .replace(/^\s*skills\s*:/i, "")
+      .split(/[·•|,;\n]/)
+      .map((skill) => skill.trim())
+      .filter(
+        (skill) => skill && !/^(and\s+)?\+\d+\s*(more|skills?)?$/i.test(skill)
+      )
+  );
+
+// All skills listed across a profile's experiences
+export const getProfileSkills = (profile: Profile): string[] =>
+  uniqueSkills(
+    (profile.experiences || []).flatMap((exp) => parseSkills(exp.skills))
+  );
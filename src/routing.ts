@@ -0,0 +1,66 @@
+import { Profile } from "./types";
+import { getProfileIdentity } from "./identity";
+
+// Deep links to a stored run and one of its profiles:
+// /runs/<run id>/profiles/<n>, n counting from 1 like the carousel does.
+// Run ids are local to each browser's IndexedDB, so links also carry the
+// profile's identity (?profile=) to find the same person in a teammate's
+// copy of the run. Nothing else goes into these URLs, in particular never the
+// session cookie.
+
+export interface Route {
+  runId: number;
+  profileIndex: number; // index into the run's profiles
+  profileKey?: string; // getProfileIdentity of the linked profile
+}
+
+const ROUTE_PATTERN = /^\/runs\/(\d+)(?:\/profiles\/(\d+))?\/?$/;
+
+export const parseRoute = (url: URL | Location): Route | null => {
+  const match = url.pathname.match(ROUTE_PATTERN);
+  if (!match) return null;
+  const position = match[2] ? Number(match[2]) : 1;
+  return {
+    runId: Number(match[1]),
+    profileIndex: Math.max(position - 1, 0),
+    profileKey: new URLSearchParams(url.search).get("profile") || undefined,
+  };
+};
+
+export const buildRoutePath = ({ runId, profileIndex, profileKey }: Route) => {
+  const path = `/runs/${runId}/profiles/${profileIndex + 1}`;
+  return profileKey
+    ? `${path}?${new URLSearchParams({ profile: profileKey })}`
+    : path;
+};
+
+export const toRoute = (
+  runId: number,
+  profiles: Profile[],
+  profileIndex: number
+): Route => ({
+  runId,
+  profileIndex,
+  profileKey: profiles[profileIndex]
+    ? getProfileIdentity(profiles[profileIndex])
+    : undefined,
+});
+
+// Absolute link to share with teammates
+export const getShareUrl = (route: Route) =>
+  new URL(buildRoutePath(route), window.location.origin).toString();
+
+// Index of the linked profile in `profiles`: the one at the linked position
+// if it is the same person, otherwise wherever that person is in the list.
+// -1 when the profile is not there.
+export const resolveProfileIndex = (profiles: Profile[], route: Route) => {
+  const { profileIndex, profileKey } = route;
+  const atIndex = profiles[profileIndex];
+  if (!profileKey) return atIndex ? profileIndex : -1;
+  if (atIndex && getProfileIdentity(atIndex) === profileKey) {
+    return profileIndex;
+  }
+  return profiles.findIndex(
+    (profile) => getProfileIdentity(profile) === profileKey
+  );
+};
@@ -0,0 +1,158 @@
+// Runtime checks for the Profile shapes in ./types. Each validator returns a
+// list of human-readable issues (empty when the value is valid) so callers can
+// decide whether to reject a payload or report problems row by row.
+
+type Issues = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The scraper sends null for fields it could not read, so treat null the same
+// as a missing optional field
+const isAbsent = (value: unknown) => value === undefined || value === null;
+
+const checkString = (
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  required = false
+) => {
+  const value = obj[key];
+  if (isAbsent(value)) {
+    if (required) issues.push(`${path}.${key} is required`);
+  } else if (typeof value !== "string") {
+    issues.push(`${path}.${key} must be a string`);
+  }
+};
+
+const checkNumber = (
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  required = false
+) => {
+  const value = obj[key];
+  if (isAbsent(value)) {
+    if (required) issues.push(`${path}.${key} is required`);
+  } else if (typeof value !== "number" || Number.isNaN(value)) {
+    issues.push(`${path}.${key} must be a number`);
+  }
+};
+
+const checkStringArray = (
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  required = false
+) => {
+  const value = obj[key];
+  if (isAbsent(value)) {
+    if (required) issues.push(`${path}.${key} is required`);
+  } else if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof item !== "string")
+  ) {
+    issues.push(`${path}.${key} must be a list of strings`);
+  }
+};
+
+const checkList = (
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  validateItem: (item: unknown, itemPath: string) => Issues
+) => {
+  const value = obj[key];
+  if (isAbsent(value)) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.${key} must be a list`);
+    return;
+  }
+  value.forEach((item, index) =>
+    issues.push(...validateItem(item, `${path}.${key}[${index}]`))
+  );
+};
+
+export const validateRole = (value: unknown, path = "role"): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [];
+  checkString(value, "title", path, issues);
+  checkString(value, "dateRange", path, issues);
+  checkString(value, "location", path, issues);
+  checkStringArray(value, "description", path, issues);
+  return issues;
+};
+
+export const validateExperience = (
+  value: unknown,
+  path = "experience"
+): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [];
+  checkString(value, "company", path, issues, true);
+  checkList(value, "roles", path, issues, validateRole);
+  checkString(value, "dateRange", path, issues);
+  checkStringArray(value, "description", path, issues);
+  checkString(value, "location", path, issues);
+  checkString(value, "title", path, issues);
+  checkString(value, "skills", path, issues);
+  return issues;
+};
+
+export const validateEducation = (
+  value: unknown,
+  path = "education"
+): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [];
+  checkString(value, "institution", path, issues, true);
+  checkString(value, "degree", path, issues, true);
+  checkString(value, "date", path, issues, true);
+  checkStringArray(value, "details", path, issues, true);
+  return issues;
+};
+
+const validateScore = (value: unknown, path: string): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [];
+  checkNumber(value, "score", path, issues);
+  checkString(value, "explanation", path, issues, true);
+  return issues;
+};
+
+export const validateEvaluation = (
+  value: unknown,
+  path = "evaluation"
+): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [
+    ...validateScore(
+      value.personal_information,
+      `${path}.personal_information`
+    ),
+    ...validateScore(value.education, `${path}.education`),
+    ...validateScore(value.work_experience, `${path}.work_experience`),
+  ];
+  checkNumber(value, "overall_score", path, issues);
+  checkStringArray(value, "actionable_insights", path, issues, true);
+  return issues;
+};
+
+export const validateProfile = (value: unknown, path = "profile"): Issues => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: Issues = [];
+  checkString(value, "name", path, issues);
+  checkString(value, "location", path, issues);
+  checkString(value, "profile_url", path, issues);
+  checkString(value, "title", path, issues);
+  checkList(value, "experiences", path, issues, validateExperience);
+  checkList(value, "education", path, issues, validateEducation);
+  if (!isAbsent(value.evaluation)) {
+    issues.push(...validateEvaluation(value.evaluation, `${path}.evaluation`));
+  }
+  return issues;
+};
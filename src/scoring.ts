@@ -0,0 +1,108 @@
+import { Profile } from "./types";
+
+export type ScoreCategory =
+  | "personal_information"
+  | "education"
+  | "work_experience";
+
+export const SCORE_CATEGORIES: { key: ScoreCategory; label: string }[] = [
+  { key: "personal_information", label: "Personal Information" },
+  { key: "education", label: "Education" },
+  { key: "work_experience", label: "Work Experience" },
+];
+
+export type ScoreWeights = Record<ScoreCategory, number>;
+
+export interface RankingSettings {
+  weights: ScoreWeights;
+  // Weighted scores at or above this value are highlighted
+  threshold: number;
+  // When false the server's overall_score is used as is
+  useCustomWeights: boolean;
+}
+
+export const DEFAULT_RANKING_SETTINGS: RankingSettings = {
+  weights: { personal_information: 1, education: 1, work_experience: 1 },
+  threshold: 7,
+  useCustomWeights: false,
+};
+
+const RANKING_SETTINGS_STORAGE_KEY = "rankingSettings";
+
+export const loadRankingSettings = (): RankingSettings => {
+  try {
+    const raw = localStorage.getItem(RANKING_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_RANKING_SETTINGS;
+    const saved = JSON.parse(raw);
+    return {
+      ...DEFAULT_RANKING_SETTINGS,
+      ...saved,
+      weights: { ...DEFAULT_RANKING_SETTINGS.weights, ...saved.weights },
+    };
+  } catch {
+    return DEFAULT_RANKING_SETTINGS;
+  }
+};
+
+export const saveRankingSettings = (settings: RankingSettings) =>
+  localStorage.setItem(RANKING_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+export const getCategoryScore = (
+  profile: Profile,
+  category: ScoreCategory
+): number | undefined => profile.evaluation?.[category]?.score;
+
+// Weighted average of the sub-scores that are present. Returns undefined for
+// profiles without an evaluation so they can be ranked last.
+export const computeScore = (
+  profile: Profile,
+  { weights, useCustomWeights }: RankingSettings
+): number | undefined => {
+  if (!useCustomWeights) return profile.evaluation?.overall_score;
+
+  let total = 0;
+  let weightSum = 0;
+  SCORE_CATEGORIES.forEach(({ key }) => {
+    const score = getCategoryScore(profile, key);
+    if (score === undefined || weights[key] <= 0) return;
+    total += score * weights[key];
+    weightSum += weights[key];
+  });
+  return weightSum > 0 ? total / weightSum : undefined;
+};
+
+// The scoring model has used both 0-10 and 0-100 scales, so scale the score
+// bars by whichever one the loaded data uses
+export const inferScoreScale = (profiles: Profile[]) => {
+  const scores = profiles.flatMap((profile) => [
+    profile.evaluation?.overall_score,
+    ...SCORE_CATEGORIES.map(({ key }) => getCategoryScore(profile, key)),
+  ]);
+  return scores.some((score) => score !== undefined && score > 10) ? 100 : 10;
+};
+
+export interface RankedProfile {
+  profile: Profile;
+  index: number; // position in the unranked profiles list
+  score: number | undefined;
+  rank: number;
+}
+
+export const rankProfiles = (
+  profiles: Profile[],
+  settings: RankingSettings
+): RankedProfile[] =>
+  profiles
+    .map((profile, index) => ({
+      profile,
+      index,
+      score: computeScore(profile, settings),
+    }))
+    .sort((a, b) => {
+      // Unscored profiles go last
+      if (a.score === undefined || b.score === undefined) {
+        return Number(a.score === undefined) - Number(b.score === undefined);
+      }
+      return b.score - a.score;
+    })
+    .map((entry, position) => ({ ...entry, rank: position + 1 }));
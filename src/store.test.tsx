@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, screen, waitFor } from "@testing-library/react";
+import {
+  MAX_COMPARE,
+  ResultsState,
+  initialResultsState,
+  resultsReducer,
+  useResults,
+} from "./store";
+import { getRun } from "./db";
+import { ResultsProbe, renderWithResults } from "./test/render";
+import { fullProfile, makeProfiles, secondProfile } from "./fixtures";
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getAllRuns: vi.fn().mockResolvedValue([]),
+  getRun: vi.fn(),
+}));
+
+afterEach(cleanup);
+
+const loaded: ResultsState = {
+  ...initialResultsState,
+  profiles: makeProfiles(MAX_COMPARE + 2),
+  currentIndex: 3,
+  compareIndices: [0, 1],
+  activeRunId: 7,
+};
+
+describe("resultsReducer", () => {
+  describe("toggleCompare", () => {
+    it("adds and removes a profile", () => {
+      const added = resultsReducer(loaded, { type: "toggleCompare", index: 2 });
+      expect(added.compareIndices).toEqual([0, 1, 2]);
+      const removed = resultsReducer(added, {
+        type: "toggleCompare",
+        index: 0,
+      });
+      expect(removed.compareIndices).toEqual([1, 2]);
+    });
+
+    it(`ignores a new profile once ${MAX_COMPARE} are selected`, () => {
+      const full = {
+        ...loaded,
+        compareIndices: Array.from({ length: MAX_COMPARE }, (_, i) => i),
+      };
+      expect(
+        resultsReducer(full, { type: "toggleCompare", index: MAX_COMPARE })
+      ).toBe(full);
+    });
+
+    it("still removes a profile from a full compare set", () => {
+      const full = {
+        ...loaded,
+        compareIndices: Array.from({ length: MAX_COMPARE }, (_, i) => i),
+      };
+      expect(
+        resultsReducer(full, { type: "toggleCompare", index: 0 }).compareIndices
+      ).toHaveLength(MAX_COMPARE - 1);
+    });
+  });
+
+  describe("loadResults", () => {
+    it("replaces the profiles and resets the selection", () => {
+      const state = resultsReducer(loaded, {
+        type: "loadResults",
+        profiles: [fullProfile, secondProfile],
+        runId: 9,
+      });
+      expect(state.profiles).toEqual([fullProfile, secondProfile]);
+      expect(state.currentIndex).toBe(0);
+      expect(state.compareIndices).toEqual([]);
+      expect(state.activeRunId).toBe(9);
+    });
+
+    it("opens the given profile", () => {
+      const state = resultsReducer(loaded, {
+        type: "loadResults",
+        profiles: [fullProfile, secondProfile],
+        runId: null,
+        currentIndex: 1,
+      });
+      expect(state.currentIndex).toBe(1);
+      expect(state.activeRunId).toBeNull();
+    });
+  });
+
+  describe("startScrape", () => {
+    it("clears the results but keeps the view and filters", () => {
+      const state = resultsReducer(
+        { ...loaded, viewMode: "table" },
+        { type: "startScrape" }
+      );
+      expect(state.profiles).toEqual([]);
+      expect(state.currentIndex).toBe(0);
+      expect(state.compareIndices).toEqual([]);
+      expect(state.activeRunId).toBeNull();
+      expect(state.viewMode).toBe("table");
+      expect(state.filter).toBe(loaded.filter);
+    });
+  });
+});
+
+describe("openRun", () => {
+  function OpenRunButton() {
+    const { openRun } = useResults();
+    return <button onClick={() => openRun(3)}>Open run</button>;
+  }
+
+  it("loads the run and switches to the carousel", async () => {
+    vi.mocked(getRun).mockResolvedValue({
+      id: 3,
+      searchUrl: "https://www.linkedin.com/search/results/people/",
+      createdAt: "2024-10-01T16:00:00.000Z",
+      limit: 2,
+      profiles: [fullProfile, secondProfile],
+    });
+    renderWithResults(
+      <>
+        <OpenRunButton />
+        <ResultsProbe />
+      </>,
+      { viewMode: "table" }
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Open run" }));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("active-run").textContent).toBe("3")
+    );
+    expect(screen.getByTestId("profile-count").textContent).toBe("2");
+    expect(screen.getByTestId("view-mode").textContent).toBe("carousel");
+  });
+});
@@ -0,0 +1,419 @@
+import {
+  Dispatch,
+  ReactNode,
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+} from "react";
+import { toast } from "react-hot-toast";
+import { Profile } from "./types";
+import { EMPTY_FILTER, ProfileFilter, matchesFilter } from "./filters";
+import { PriorSightings, buildPriorSightings } from "./identity";
+import { normalizeProfiles } from "./normalize";
+import { PrintJob, usePrintJob } from "./print";
+import { Triage, TriageMap, useTriage } from "./triage";
+import {
+  Route,
+  buildRoutePath,
+  parseRoute,
+  resolveProfileIndex,
+  toRoute,
+} from "./routing";
+import {
+  NewRun,
+  Run,
+  RunSummary,
+  deleteRun,
+  getAllRuns,
+  getRun,
+  saveRun,
+  toSummary,
+} from "./db";
+
+// Shared state of the loaded result set: the profiles, which of them is
+// open, selected for comparison or filtered out, and the run history they
+// belong to. Components read it through useResults() instead of receiving
+// it prop by prop from App.
+
+// Most profiles shown side by side in the compare view
+export const MAX_COMPARE = 4;
+
+export type ViewMode =
+  | "table"
+  | "ranking"
+  | "carousel"
+  | "compare"
+  | "analytics";
+
+export interface ResultsState {
+  profiles: Profile[];
+  currentIndex: number; // index into profiles of the open profile
+  compareIndices: number[];
+  viewMode: ViewMode;
+  filter: ProfileFilter;
+  runs: Run[]; // oldest first, as stored
+  activeRunId: number | null;
+  // The run last opened from the history, so the search form can be
+  // filled in with its searches
+  openedRun: Run | null;
+}
+
+export type ResultsAction =
+  | { type: "startScrape" }
+  | { type: "setProfiles"; profiles: Profile[] }
+  | {
+      type: "loadResults";
+      profiles: Profile[];
+      runId: number | null;
+      openedRun?: Run;
+      currentIndex?: number;
+    }
+  | { type: "setActiveRun"; runId: number | null }
+  | { type: "setRuns"; runs: Run[] }
+  | { type: "select"; index: number }
+  | { type: "openProfile"; index: number }
+  | { type: "toggleCompare"; index: number }
+  | { type: "setViewMode"; viewMode: ViewMode }
+  | { type: "setFilter"; filter: ProfileFilter };
+
+export const initialResultsState: ResultsState = {
+  profiles: [],
+  currentIndex: 0,
+  compareIndices: [],
+  viewMode: "carousel",
+  filter: EMPTY_FILTER,
+  runs: [],
+  activeRunId: null,
+  openedRun: null,
+};
+
+export const resultsReducer = (
+  state: ResultsState,
+  action: ResultsAction
+): ResultsState => {
+  switch (action.type) {
+    case "startScrape":
+      return {
+        ...state,
+        profiles: [],
+        currentIndex: 0,
+        compareIndices: [],
+        activeRunId: null,
+      };
+    case "setProfiles":
+      return { ...state, profiles: action.profiles };
+    case "loadResults":
+      return {
+        ...state,
+        profiles: action.profiles,
+        currentIndex: action.currentIndex || 0,
+        compareIndices: [],
+        activeRunId: action.runId,
+        openedRun: action.openedRun || state.openedRun,
+      };
+    case "setActiveRun":
+      return { ...state, activeRunId: action.runId };
+    case "setRuns":
+      return { ...state, runs: action.runs };
+    case "select":
+      return { ...state, currentIndex: action.index };
+    case "openProfile":
+      return { ...state, currentIndex: action.index, viewMode: "carousel" };
+    case "toggleCompare": {
+      const { compareIndices } = state;
+      if (compareIndices.includes(action.index)) {
+        return {
+          ...state,
+          compareIndices: compareIndices.filter((i) => i !== action.index),
+        };
+      }
+      if (compareIndices.length >= MAX_COMPARE) return state;
+      return { ...state, compareIndices: [...compareIndices, action.index] };
+    }
+    case "setViewMode":
+      return { ...state, viewMode: action.viewMode };
+    case "setFilter":
+      return { ...state, filter: action.filter };
+  }
+};
+
+interface ResultsContextValue {
+  state: ResultsState;
+  dispatch: Dispatch<ResultsAction>;
+  // Indices into state.profiles of the profiles passing the filter rules
+  matchingIndices: number[];
+  filteredProfiles: Profile[];
+  runSummaries: RunSummary[]; // newest first
+  priorSightings: PriorSightings;
+  triage: TriageMap;
+  updateTriage: (key: string, patch: Partial<Triage>) => void;
+  printJob: PrintJob | null;
+  printProfiles: (profiles: Profile[], title: string) => void;
+  toggleCompare: (index: number) => void;
+  refreshRuns: () => Promise<void>;
+  saveResults: (run: NewRun) => Promise<void>;
+  openRun: (id: number) => Promise<void>;
+  openRoute: (route: Route) => Promise<void>;
+  removeRun: (id: number) => Promise<void>;
+}
+
+const ResultsContext = createContext<ResultsContextValue | null>(null);
+
+interface ResultsProviderProps {
+  children: ReactNode;
+  // Starting state, e.g. profiles already loaded (used by the tests)
+  initialState?: Partial<ResultsState>;
+}
+
+export function ResultsProvider({
+  children,
+  initialState,
+}: ResultsProviderProps) {
+  const [state, dispatch] = useReducer(resultsReducer, {
+    ...initialResultsState,
+    ...initialState,
+  });
+  const { triage, updateTriage } = useTriage();
+  const { printJob, printProfiles } = usePrintJob();
+  const { profiles, filter, runs, activeRunId, currentIndex } = state;
+
+  const matchingIndices = useMemo(
+    () =>
+      profiles.flatMap((profile, index) =>
+        matchesFilter(profile, filter) ? [index] : []
+      ),
+    [profiles, filter]
+  );
+  const filteredProfiles = useMemo(
+    () => matchingIndices.map((index) => profiles[index]),
+    [profiles, matchingIndices]
+  );
+  const runSummaries = useMemo(() => runs.map(toSummary).reverse(), [runs]);
+  // Profiles of earlier runs, for the "seen before" badge
+  const priorSightings = useMemo(() => {
+    const activeRun = runs.find((run) => run.id === activeRunId);
+    return buildPriorSightings(runs, activeRun || null);
+  }, [runs, activeRunId]);
+
+  // Keep the open profile on one that passes the filters
+  useEffect(() => {
+    if (matchingIndices.length > 0 && !matchingIndices.includes(currentIndex)) {
+      dispatch({ type: "select", index: matchingIndices[0] });
+    }
+  }, [matchingIndices]);
+
+  const refreshRuns = () =>
+    getAllRuns()
+      .then((runs) => dispatch({ type: "setRuns", runs }))
+      .catch((error) => console.error("Failed to load history", error));
+
+  // Load search history from IndexedDB
+  useEffect(() => {
+    refreshRuns();
+  }, []);
+
+  const toggleCompare = (index: number) => {
+    if (
+      !state.compareIndices.includes(index) &&
+      state.compareIndices.length >= MAX_COMPARE
+    ) {
+      toast.error(`You can compare up to ${MAX_COMPARE} profiles`);
+      return;
+    }
+    dispatch({ type: "toggleCompare", index });
+  };
+
+  // Stores the loaded results as a run and makes it the active one
+  const saveResults = async (run: NewRun) => {
+    try {
+      const saved = await saveRun(run);
+      dispatch({ type: "setActiveRun", runId: saved.id });
+      refreshRuns();
+    } catch (error) {
+      toast.error("Failed to save run to history");
+      console.error(error);
+    }
+  };
+
+  const openRun = async (id: number) => {
+    try {
+      const run = await getRun(id);
+      if (!run) {
+        toast.error("Run not found");
+        refreshRuns();
+        return;
+      }
+      dispatch({
+        type: "loadResults",
+        profiles: normalizeProfiles(run.profiles),
+        runId: run.id,
+        openedRun: run,
+      });
+      dispatch({ type: "setViewMode", viewMode: "carousel" });
+    } catch (error) {
+      toast.error("Failed to open run");
+      console.error(error);
+    }
+  };
+
+  // The route handlers below are registered once, so they read the state
+  // through a ref
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Set once the route the page was loaded with has been opened; until then
+  // the address bar is left alone
+  const routeReadyRef = useRef(false);
+
+  // Opens the run and profile a deep link points to. A teammate's copy of
+  // the run has a different id, so when the run is missing or no longer
+  // holds the linked person, the newest stored run that does is used.
+  const openRoute = async (route: Route) => {
+    const current = stateRef.current;
+    if (route.runId === current.activeRunId) {
+      const index = resolveProfileIndex(current.profiles, route);
+      if (index !== -1) {
+        dispatch({ type: "openProfile", index });
+        return;
+      }
+    }
+    try {
+      const linked = await getRun(route.runId);
+      let run = linked;
+      let index = linked ? resolveProfileIndex(linked.profiles, route) : -1;
+      if (index === -1 && route.profileKey) {
+        const runs = (await getAllRuns()).reverse();
+        run = runs.find(
+          (candidate) => resolveProfileIndex(candidate.profiles, route) !== -1
+        );
+        index = run ? resolveProfileIndex(run.profiles, route) : -1;
+      }
+      if (!run || index === -1) {
+        toast.error(
+          linked
+            ? "The linked profile is not in this run"
+            : "The linked run is not stored in this browser. Import its export to open it."
+        );
+        window.history.replaceState(null, "", "/");
+        return;
+      }
+      dispatch({
+        type: "loadResults",
+        profiles: normalizeProfiles(run.profiles),
+        runId: run.id,
+        openedRun: run,
+        currentIndex: index,
+      });
+      dispatch({ type: "setViewMode", viewMode: "carousel" });
+    } catch (error) {
+      toast.error("Failed to open link");
+      console.error(error);
+    }
+  };
+
+  // Open the run and profile in the address bar, on load and when moving
+  // through the browser history
+  useEffect(() => {
+    const route = parseRoute(window.location);
+    (route ? openRoute(route) : Promise.resolve()).finally(() => {
+      routeReadyRef.current = true;
+    });
+    const onPopState = () => {
+      const route = parseRoute(window.location);
+      if (route) openRoute(route);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  // Push every profile opened in a stored run onto the history, so back and
+  // forward step through the profiles viewed. Leaves any other URL (e.g. the
+  // ?url= prefill) alone while the results are not stored yet.
+  useEffect(() => {
+    if (!routeReadyRef.current) return;
+    const { pathname, search } = window.location;
+    if (activeRunId === null) {
+      if (parseRoute(window.location)) window.history.pushState(null, "", "/");
+      return;
+    }
+    const path = buildRoutePath(toRoute(activeRunId, profiles, currentIndex));
+    if (pathname + search !== path) window.history.pushState(null, "", path);
+  }, [activeRunId, profiles, currentIndex]);
+
+  // Puts a deleted run back under its old id, so links to it keep working
+  const restoreRun = async (run: Run) => {
+    try {
+      await saveRun(run);
+      refreshRuns();
+    } catch (error) {
+      toast.error("Failed to restore run");
+      console.error(error);
+    }
+  };
+
+  const removeRun = async (id: number) => {
+    try {
+      const run = await getRun(id);
+      await deleteRun(id);
+      if (id === activeRunId) dispatch({ type: "setActiveRun", runId: null });
+      refreshRuns();
+      if (!run) return;
+      toast(
+        (t) => (
+          <span className="flex items-center">
+            Run deleted
+            <button
+              type="button"
+              onClick={() => {
+                toast.dismiss(t.id);
+                restoreRun(run);
+              }}
+              className="ml-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              Undo
+            </button>
+          </span>
+        ),
+        { duration: 6000 }
+      );
+    } catch (error) {
+      toast.error("Failed to delete run");
+      console.error(error);
+    }
+  };
+
+  return (
+    <ResultsContext.Provider
+      value={{
+        state,
+        dispatch,
+        matchingIndices,
+        filteredProfiles,
+        runSummaries,
+        priorSightings,
+        triage,
+        updateTriage,
+        printJob,
+        printProfiles,
+        toggleCompare,
+        refreshRuns,
+        saveResults,
+        openRun,
+        openRoute,
+        removeRun,
+      }}
+    >
+      {children}
+    </ResultsContext.Provider>
+  );
+}
+
+export const useResults = () => {
+  const context = useContext(ResultsContext);
+  if (!context) {
+    throw new Error("useResults must be used inside a ResultsProvider");
+  }
+  return context;
+};
@@ -0,0 +1,10 @@
+import axe from "axe-core";
+
+// Axe violations in `container` as "rule: help" lines. jsdom does no layout,
+// so contrast can't be checked here
+export const axeViolations = async (container: Element) => {
+  const results = await axe.run(container, {
+    rules: { "color-contrast": { enabled: false } },
+  });
+  return results.violations.map(({ id, help }) => `${id}: ${help}`);
+};
@@ -0,0 +1,28 @@
+import { ReactElement } from "react";
+import { render } from "@testing-library/react";
+import { ResultsProvider, ResultsState, useResults } from "../store";
+
+// Renders a component inside a results store seeded with `state`
+export const renderWithResults = (
+  ui: ReactElement,
+  state: Partial<ResultsState> = {}
+) => render(<ResultsProvider initialState={state}>{ui}</ResultsProvider>);
+
+// Exposes the parts of the store the tests assert on
+export function ResultsProbe() {
+  const { state } = useResults();
+  return (
+    <dl>
+      <dt>Profiles</dt>
+      <dd data-testid="profile-count">{state.profiles.length}</dd>
+      <dt>Current</dt>
+      <dd data-testid="current-index">{state.currentIndex}</dd>
+      <dt>Compare</dt>
+      <dd data-testid="compare-indices">{state.compareIndices.join(",")}</dd>
+      <dt>Run</dt>
+      <dd data-testid="active-run">{String(state.activeRunId)}</dd>
+      <dt>View</dt>
+      <dd data-testid="view-mode">{state.viewMode}</dd>
+    </dl>
+  );
+}
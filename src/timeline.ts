@@ -0,0 +1,188 @@
+import { Profile } from "./types";
+import { flattenRoles } from "./profile";
+
+// Parses LinkedIn date ranges ("Jan 2020 - Present · 3 yrs 2 mos",
+// "2016 - 2019", "Mar 2018 – Jun 2019") into month-precision periods and
+// derives career metrics from them.
+
+// Months since year 0, so periods can be compared and subtracted directly
+export type MonthIndex = number;
+
+export interface Period {
+  start: MonthIndex;
+  end: MonthIndex; // inclusive
+  isCurrent: boolean;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export const toMonthIndex = (date: Date): MonthIndex =>
+  date.getFullYear() * 12 + date.getMonth();
+
+export const formatMonth = (month: MonthIndex) =>
+  `${MONTHS[month % 12][0].toUpperCase()}${MONTHS[month % 12].slice(
+    1
+  )} ${Math.floor(month / 12)}`;
+
+// YYYY-MM, as used by JSON Resume and ISO 8601
+export const toIsoMonth = (month: MonthIndex) =>
+  `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, "0")}`;
+
+const PRESENT = /^(present|now|current|today)$/i;
+
+// "Jan 2020", "January 2020", "2020" -> month index. A bare year means
+// January as a start and December as an end.
+const parsePoint = (text: string, asEnd: boolean): MonthIndex | undefined => {
+  const match = text.trim().match(/^(?:([a-z]{3})[a-z]*\.?\s+)?(\d{4})$/i);
+  if (!match) return undefined;
+  const year = Number(match[2]);
+  if (!match[1]) return year * 12 + (asEnd ? 11 : 0);
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  return month === -1 ? undefined : year * 12 + month;
+};
+
+export const parseDateRange = (
+  value: string | undefined,
+  now: Date = new Date()
+): Period | undefined => {
+  if (!value) return undefined;
+  // Drop the "· 3 yrs 2 mos" duration LinkedIn appends
+  const range = value.split("·")[0].trim();
+  const [startText, endText] = range.split(/\s*[-–—]\s*|\s+to\s+/i);
+  const start = parsePoint(startText, false);
+  if (start === undefined) return undefined;
+
+  if (endText === undefined) {
+    // A single date, e.g. a graduation year: the period is that point
+    const end = parsePoint(startText, true)!;
+    return { start, end, isCurrent: false };
+  }
+  if (PRESENT.test(endText.trim())) {
+    return { start, end: toMonthIndex(now), isCurrent: true };
+  }
+  const end = parsePoint(endText, true);
+  if (end === undefined || end < start) return undefined;
+  return { start, end, isCurrent: false };
+};
+
+// Whole months covered, counting both ends like LinkedIn does
+export const periodMonths = ({ start, end }: Period) => end - start + 1;
+
+export const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years) parts.push(`${years} yr${years === 1 ? "" : "s"}`);
+  if (rest || !years) parts.push(`${rest} mo${rest === 1 ? "" : "s"}`);
+  return parts.join(" ");
+};
+
+export interface TimelineEntry {
+  company: string;
+  title?: string;
+  dateRange?: string;
+  period?: Period;
+  experienceIndex: number;
+}
+
+export interface CareerGap {
+  start: MonthIndex; // first month without a role
+  end: MonthIndex; // last month without a role
+  months: number;
+}
+
+export interface CareerSummary {
+  entries: TimelineEntry[];
+  totalMonths: number; // overlapping roles are counted once
+  currentCompany?: string;
+  currentTenureMonths?: number;
+  gaps: CareerGap[];
+  earliestStart?: MonthIndex;
+  latestEnd?: MonthIndex;
+}
+
+// Gaps shorter than this are usually just a notice period
+const MIN_GAP_MONTHS = 3;
+
+export const getCareerSummary = (
+  profile: Profile,
+  now: Date = new Date()
+): CareerSummary => {
+  const entries: TimelineEntry[] = (profile.experiences || []).flatMap(
+    (exp, experienceIndex) =>
+      flattenRoles(exp).map((role) => ({
+        company: exp.company,
+        title: role.title,
+        dateRange: role.dateRange,
+        period: parseDateRange(role.dateRange, now),
+        experienceIndex,
+      }))
+  );
+
+  // Merge overlapping periods so concurrent roles aren't double counted
+  const periods = entries
+    .flatMap((entry) => (entry.period ? [entry.period] : []))
+    .sort((a, b) => a.start - b.start);
+  const merged: Period[] = [];
+  periods.forEach((period) => {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end + 1) {
+      last.end = Math.max(last.end, period.end);
+    } else {
+      merged.push({ ...period });
+    }
+  });
+
+  const gaps: CareerGap[] = [];
+  merged.slice(1).forEach((period, index) => {
+    const months = period.start - merged[index].end - 1;
+    if (months >= MIN_GAP_MONTHS) {
+      gaps.push({
+        start: merged[index].end + 1,
+        end: period.start - 1,
+        months,
+      });
+    }
+  });
+
+  // The first experience is the current one when any of its roles is
+  const currentEntries = entries.filter(
+    (entry) => entry.experienceIndex === 0 && entry.period
+  );
+  const isCurrent = currentEntries.some((entry) => entry.period!.isCurrent);
+  const currentStart = Math.min(
+    ...currentEntries.map((entry) => entry.period!.start)
+  );
+
+  return {
+    entries,
+    totalMonths: merged.reduce((sum, period) => sum + periodMonths(period), 0),
+    currentCompany: isCurrent ? profile.experiences?.[0]?.company : undefined,
+    currentTenureMonths: isCurrent
+      ? toMonthIndex(now) - currentStart + 1
+      : undefined,
+    gaps,
+    earliestStart: merged[0]?.start,
+    latestEnd: merged[merged.length - 1]?.end,
+  };
+};
+
+// Years with one decimal, for exports and filters
+export const monthsToYears = (months: number) =>
+  Math.round((months / 12) * 10) / 10;
+
+export const getExperienceYears = (profile: Profile, now?: Date) =>
+  monthsToYears(getCareerSummary(profile, now).totalMonths);
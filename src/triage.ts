@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from "react";
+import { Profile } from "./types";
+import { normalizeProfileUrl } from "./identity";
+
+// Recruiter decisions about a profile, kept in local storage and keyed by
+// profile_url so they follow the candidate across runs
+
+export type TriageStatus = "shortlisted" | "rejected";
+
+export interface Triage {
+  status?: TriageStatus;
+  notes?: string;
+  tags?: string[];
+}
+
+export type TriageMap = Record<string, Triage>;
+
+const TRIAGE_STORAGE_KEY = "triage";
+
+const loadTriage = (): TriageMap => {
+  try {
+    return JSON.parse(localStorage.getItem(TRIAGE_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const isEmpty = ({ status, notes, tags }: Triage) =>
+  !status && !notes?.trim() && (!tags || tags.length === 0);
+
+// Triage is keyed by the normalized URL so it sticks to the person whatever
+// tracking params or locale the URL was scraped with
+export const getTriageKey = (profile: Profile) =>
+  profile.profile_url
+    ? normalizeProfileUrl(profile.profile_url) || profile.profile_url
+    : undefined;
+
+export const getTriage = (triage: TriageMap, profile: Profile): Triage => {
+  const key = getTriageKey(profile);
+  return (key && triage[key]) || {};
+};
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const useTriage = () => {
+  const [triage, setTriage] = useState<TriageMap>(loadTriage);
+
+  useEffect(() => {
+    localStorage.setItem(TRIAGE_STORAGE_KEY, JSON.stringify(triage));
+  }, [triage]);
+
+  // Keep the triage of other tabs in sync
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === TRIAGE_STORAGE_KEY) setTriage(loadTriage());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const updateTriage = useCallback(
+    (profileUrl: string, patch: Partial<Triage>) =>
+      setTriage((prev) => {
+        const next = { ...prev };
+        const merged = { ...prev[profileUrl], ...patch };
+        if (isEmpty(merged)) {
+          delete next[profileUrl];
+        } else {
+          next[profileUrl] = merged;
+        }
+        return next;
+      }),
+    []
+  );
+
+  return { triage, updateTriage };
+};
@@ -0,0 +1,68 @@
+export interface Role {
+  title?: string;
+  dateRange?: string;
+  location?: string;
+  description?: string[];
+}
+
+export interface Experience {
+  company: string;
+  roles?: Role[];
+  dateRange?: string;
+  description?: string[];
+  location?: string;
+  title?: string;
+  skills?: string;
+}
+
+export interface Education {
+  institution: string;
+  degree: string;
+  date: string;
+  details: string[];
+}
+
+// Scores are optional: the scoring model sometimes fails to rate a category
+export interface EvaluationScore {
+  score?: number;
+  explanation: string;
+}
+
+export interface Evaluation {
+  personal_information: EvaluationScore;
+  education: EvaluationScore;
+  work_experience: EvaluationScore;
+  overall_score?: number;
+  actionable_insights: string[];
+}
+
+// Added client-side: the search(es) a profile was scraped from
+export interface ProfileSource {
+  searchUrl: string;
+  scrapedAt: string; // ISO timestamp
+}
+
+// Added client-side: parts of the payload that were missing or malformed
+// and had to be filled with defaults (see ./normalize)
+export type ProfileSection =
+  | "name"
+  | "profile_url"
+  | "title"
+  | "location"
+  | "experiences"
+  | "education"
+  | "evaluation"
+  | "scores"
+  | "insights";
+
+export interface Profile {
+  name?: string;
+  location?: string;
+  profile_url?: string;
+  title?: string;
+  experiences?: Experience[];
+  education?: Education[];
+  evaluation?: Evaluation;
+  sources?: ProfileSource[];
+  missingSections?: ProfileSection[];
+}
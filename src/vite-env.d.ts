@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the scraping backend, e.g. http://localhost:8000
+  readonly VITE_API_BASE_URL?: string;
+  // "true" to serve API requests from the in-browser mock backend
+  readonly VITE_MOCK_API?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
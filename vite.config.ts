@@ -0,0 +1,27 @@
+import { Plugin, defineConfig, loadEnv } from "vite";
+import react from "@vitejs/plugin-react";
+
+const MOCK_API_STUB = "\0mock-api-stub";
+
+// The mock backend (src/mockApi.ts) and its demo profiles only go into
+// builds made with VITE_MOCK_API=true. Otherwise the module resolves to this
+// stub, so nothing of it ends up in dist/.
+const mockApi = (enabled: boolean): Plugin => ({
+  name: "mock-api",
+  enforce: "pre",
+  resolveId(source) {
+    if (!enabled && /(^|\/)mockApi(\.ts)?$/.test(source)) return MOCK_API_STUB;
+  },
+  load(id) {
+    if (id === MOCK_API_STUB) {
+      return 'export const mockFetch = () => { throw new Error("Built without VITE_MOCK_API"); };';
+    }
+  },
+});
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd());
+  return {
+    plugins: [react(), mockApi(env.VITE_MOCK_API === "true")],
+  };
+});